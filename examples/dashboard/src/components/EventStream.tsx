@@ -16,28 +16,14 @@ export function EventStream() {
   const [events, setEvents] = useState<Event[]>([]);
 
   useEffect(() => {
-    const unsubscribeProgress = eventBus.on('tool:execution:progress', (event) => {
+    return eventBus.on('tool.*', (event) => {
       setEvents(prev => [...prev, {
-        id: Math.random().toString(36).substr(2, 9),
-        timestamp: Date.now(),
-        type: 'progress',
-        data: event
+        id: event.id,
+        timestamp: event.timestamp,
+        type: event.type,
+        data: event.payload
       }]);
     });
-
-    const unsubscribeError = eventBus.on('tool:execution:error', (event) => {
-      setEvents(prev => [...prev, {
-        id: Math.random().toString(36).substr(2, 9),
-        timestamp: Date.now(),
-        type: 'error',
-        data: event
-      }]);
-    });
-
-    return () => {
-      unsubscribeProgress();
-      unsubscribeError();
-    };
   }, [eventBus]);
 
   return (
@@ -50,12 +36,12 @@ export function EventStream() {
           <div
             key={event.id}
             className={`p-3 rounded ${
-              event.type === 'error' ? 'bg-red-50' : 'bg-gray-50'
+              event.type === 'tool.error' ? 'bg-red-50' : 'bg-gray-50'
             }`}
           >
             <div className="flex justify-between">
               <span className="font-mono">
-                {event.type === 'progress' ? '✨' : '❌'} {event.type}
+                {event.type === 'tool.error' ? '❌' : '✨'} {event.type}
               </span>
               <span className="text-sm text-gray-500">
                 {new Date(event.timestamp).toLocaleTimeString()}
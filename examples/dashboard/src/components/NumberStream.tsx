@@ -15,14 +15,14 @@ export function NumberStream() {
     setIsRunning(true);
     setNumbers([]);
     
-    const stream = numberStreamTool.execute({ min, max, duration });
+    const stream = numberStreamTool.executeStream({ min, max, duration });
     
     try {
-      for await (const result of stream) {
-        if (result.status === 'success') {
+      for await (const event of stream) {
+        if (event.type === 'data') {
           setNumbers(prev => [...prev, {
-            value: result.data.currentNumber,
-            timestamp: result.data.timestamp
+            value: event.chunk.currentNumber,
+            timestamp: event.chunk.timestamp
           }]);
         }
       }
@@ -1,12 +1,14 @@
 'use client';
 
 import { Card, Title, Text, Button, NumberInput } from "@tremor/react";
-import { useState } from "react";
+import { useMemo, useState } from "react";
+import { ToolExecutor as CoreToolExecutor } from "modern-ai-tool-protocol";
 import numberStreamTool from "../../../real-world/number-stream";
 import { useEventBus } from "@/context/EventBusContext";
 
 export function ToolExecutor() {
   const eventBus = useEventBus();
+  const executor = useMemo(() => new CoreToolExecutor(eventBus), [eventBus]);
   const [min, setMin] = useState(0);
   const [max, setMax] = useState(100);
   const [duration, setDuration] = useState(10);
@@ -15,21 +17,10 @@ export function ToolExecutor() {
   const executeStream = async () => {
     setIsRunning(true);
     try {
-      const stream = numberStreamTool.execute({ min, max, duration });
-      
-      for await (const result of stream) {
-        if (result.status === 'success') {
-          eventBus.emit('tool:execution:progress', {
-            tool: 'number-stream',
-            result: result.data
-          });
-        }
+      // The executor emits tool.start, tool.stream.chunk, tool.complete, ...
+      for await (const _event of executor.executeStream(numberStreamTool, { min, max, duration })) {
+        // Events are consumed through the event bus
       }
-    } catch (error) {
-      eventBus.emit('tool:execution:error', {
-        tool: 'number-stream',
-        error: error instanceof Error ? error.message : 'Unknown error'
-      });
     } finally {
       setIsRunning(false);
     }
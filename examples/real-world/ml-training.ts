@@ -1,4 +1,15 @@
-import { createTool, ModernTool, ToolResponse } from '../../src';
+import { createTool, ModernTool, ToolResponse, s } from '../../src';
+
+// Resolves after `ms`, or rejects as soon as the invocation is cancelled
+function wait(signal: AbortSignal, ms: number): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    }, { once: true });
+  });
+}
 
 interface TrainingInput {
   dataset: {
@@ -19,6 +30,26 @@ interface TrainingInput {
   };
 }
 
+// TrainingInput as a compilable schema, e.g. for compileToOpenAI
+export const trainingInputSchema = {
+  dataset: s.object({
+    trainPath: s.string({ description: 'Path or URI of the training data' }),
+    validationPath: s.optional(s.string({ description: 'Path or URI of the validation data' })),
+    format: s.enum(['csv', 'parquet', 'json'])
+  }),
+  model: s.object({
+    architecture: s.string({ description: 'Model architecture, e.g. resnet50' }),
+    hyperparameters: s.record(s.unknown()),
+    checkpointPath: s.optional(s.string())
+  }),
+  training: s.object({
+    epochs: s.integer({ minimum: 1 }),
+    batchSize: s.integer({ minimum: 1 }),
+    earlyStoppingPatience: s.optional(s.integer()),
+    distributedTraining: s.withDefault(s.boolean(), false)
+  })
+};
+
 interface TrainingOutput {
   model: {
     path: string;
@@ -220,75 +251,64 @@ const mlTrainingTool = createTool<TrainingInput, TrainingOutput>({
     ]
   },
 
-  async* execute(input: TrainingInput): AsyncGenerator<ToolResponse<TrainingOutput | TrainingMetrics>> {
+  async execute(input: TrainingInput, { signal, reportProgress }): Promise<ToolResponse<TrainingOutput>> {
     try {
       // Step 1: Setup and validation
-      yield {
-        status: 'pending',
-        progress: {
-          percentage: 5,
-          message: 'Setting up training environment...',
-          eta: 30
-        }
-      };
+      reportProgress({
+        percentage: 5,
+        message: 'Setting up training environment...',
+        eta: 30
+      });
 
       // Simulate environment setup
-      await new Promise(resolve => setTimeout(resolve, 2000));
+      await wait(signal, 2000);
 
       // Step 2: Data loading
-      yield {
-        status: 'pending',
-        progress: {
-          percentage: 10,
-          message: 'Loading and validating dataset...',
-          eta: 120
-        }
-      };
+      reportProgress({
+        percentage: 10,
+        message: 'Loading and validating dataset...',
+        eta: 120
+      });
 
       // Simulate data loading
-      await new Promise(resolve => setTimeout(resolve, 3000));
+      await wait(signal, 3000);
 
       // Step 3: Training loop
       const totalEpochs = input.training.epochs;
       for (let epoch = 1; epoch <= totalEpochs; epoch++) {
         // Simulate epoch training
-        await new Promise(resolve => setTimeout(resolve, 1000));
+        await wait(signal, 1000);
 
-        // Yield detailed metrics
-        yield {
-          status: 'pending',
-          data: {
-            currentEpoch: epoch,
-            batchesCompleted: 100,
-            metrics: {
-              loss: 0.5 - (0.3 * (epoch / totalEpochs)),
-              accuracy: 0.7 + (0.25 * (epoch / totalEpochs))
-            },
-            resourceUsage: {
-              gpuUtilization: 95,
-              memoryUsage: 14000000000
-            }
-          } as TrainingMetrics,
-          progress: {
-            percentage: 10 + (85 * (epoch / totalEpochs)),
-            message: `Training epoch ${epoch}/${totalEpochs}...`,
-            eta: (totalEpochs - epoch) * 10
+        const epochMetrics: TrainingMetrics = {
+          currentEpoch: epoch,
+          batchesCompleted: 100,
+          metrics: {
+            loss: 0.5 - (0.3 * (epoch / totalEpochs)),
+            accuracy: 0.7 + (0.25 * (epoch / totalEpochs))
+          },
+          resourceUsage: {
+            gpuUtilization: 95,
+            memoryUsage: 14000000000
           }
         };
+
+        // Report detailed metrics
+        reportProgress({
+          percentage: 10 + (85 * (epoch / totalEpochs)),
+          message: `Training epoch ${epoch}/${totalEpochs} (loss ${epochMetrics.metrics.loss.toFixed(3)})...`,
+          eta: (totalEpochs - epoch) * 10
+        });
       }
 
       // Step 4: Final evaluation
-      yield {
-        status: 'pending',
-        progress: {
-          percentage: 95,
-          message: 'Running final evaluation...',
-          eta: 30
-        }
-      };
+      reportProgress({
+        percentage: 95,
+        message: 'Running final evaluation...',
+        eta: 30
+      });
 
       // Simulate final evaluation
-      await new Promise(resolve => setTimeout(resolve, 2000));
+      await wait(signal, 2000);
 
       // Return success with final model
       return {
@@ -322,6 +342,10 @@ const mlTrainingTool = createTool<TrainingInput, TrainingOutput>({
         }
       };
     } catch (error: any) {
+      if (signal.aborted) {
+        return { status: 'cancelled' };
+      }
+
       return {
         status: 'error',
         error: {
@@ -1,4 +1,4 @@
-import { createTool, ToolResponse } from '../../src';
+import { createStreamingTool, StreamEvent } from '../../src';
 
 interface NumberStreamInput {
   min?: number;
@@ -11,7 +11,7 @@ interface NumberStreamOutput {
   timestamp: number;
 }
 
-const numberStreamTool = createTool<NumberStreamInput, NumberStreamOutput>({
+const numberStreamTool = createStreamingTool<NumberStreamInput, NumberStreamOutput>({
   version: '1.0.0',
   metadata: {
     id: 'number-stream',
@@ -31,25 +31,72 @@ const numberStreamTool = createTool<NumberStreamInput, NumberStreamOutput>({
         },
         description: 'Generate numbers between 0 and 100 for 5 seconds'
       }
-    ]
+    ],
+    limitations: ['Emits at most one number per second']
   },
 
-  async *execute(input: NumberStreamInput): AsyncGenerator<ToolResponse<NumberStreamOutput>> {
+  errors: {
+    possibleErrors: [
+      {
+        code: 'INVALID_RANGE',
+        description: 'min is greater than max',
+        isRetryable: false,
+        suggestedUserMessage: 'Please choose a minimum below the maximum.'
+      }
+    ],
+    retryStrategies: []
+  },
+
+  execution: {
+    canBeCancelled: true,
+    supportsProgress: true
+  },
+
+  state: {
+    persistsBetweenCalls: false
+  },
+
+  streaming: {
+    supportsPartialResults: true,
+    supportsPause: true
+  },
+
+  async *executeStream(input, options): AsyncGenerator<StreamEvent<NumberStreamOutput>> {
     const min = input.min ?? 0;
     const max = input.max ?? 100;
     const duration = input.duration ?? 10;
 
+    if (min > max) {
+      yield {
+        type: 'error',
+        error: {
+          code: 'INVALID_RANGE',
+          message: `min (${min}) is greater than max (${max})`,
+          retryable: false,
+          userMessage: 'Please choose a minimum below the maximum.'
+        }
+      };
+      return;
+    }
+
     for (let i = 0; i < duration; i++) {
+      if (options?.signal?.aborted) return;
+
       const number = Math.floor(Math.random() * (max - min + 1)) + min;
-      
+
       yield {
-        status: 'success',
-        data: {
+        type: 'data',
+        chunk: {
           currentNumber: number,
           timestamp: Date.now()
         }
       };
 
+      yield {
+        type: 'progress',
+        progress: { percentage: ((i + 1) / duration) * 100 }
+      };
+
       // Wait 1 second before next number
       await new Promise(resolve => setTimeout(resolve, 1000));
     }
@@ -1,5 +1,16 @@
 import { createTool, ModernTool, ToolResponse } from '../../src';
 
+// Resolves after `ms`, or rejects as soon as the invocation is cancelled
+function wait(signal: AbortSignal, ms: number): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    }, { once: true });
+  });
+}
+
 interface TranscriptionInput {
   videoUrl: string;
   targetLanguage?: string;
@@ -155,59 +166,47 @@ const videoTranscriptionTool = createTool<TranscriptionInput, TranscriptionOutpu
     ]
   },
 
-  async* execute(input: TranscriptionInput): AsyncGenerator<ToolResponse<TranscriptionOutput>> {
+  async execute(input: TranscriptionInput, { signal, reportProgress }): Promise<ToolResponse<TranscriptionOutput>> {
     try {
       // Step 1: Download video
-      yield {
-        status: 'pending',
-        progress: {
-          percentage: 10,
-          message: 'Downloading video...',
-          eta: 30
-        }
-      };
+      reportProgress({
+        percentage: 10,
+        message: 'Downloading video...',
+        eta: 30
+      });
 
       // Simulate download
-      await new Promise(resolve => setTimeout(resolve, 2000));
+      await wait(signal, 2000);
 
       // Step 2: Extract audio
-      yield {
-        status: 'pending',
-        progress: {
-          percentage: 30,
-          message: 'Extracting audio...',
-          eta: 25
-        }
-      };
+      reportProgress({
+        percentage: 30,
+        message: 'Extracting audio...',
+        eta: 25
+      });
 
       // Simulate extraction
-      await new Promise(resolve => setTimeout(resolve, 2000));
+      await wait(signal, 2000);
 
       // Step 3: Transcribe
-      yield {
-        status: 'pending',
-        progress: {
-          percentage: 50,
-          message: 'Transcribing...',
-          eta: 20
-        }
-      };
+      reportProgress({
+        percentage: 50,
+        message: 'Transcribing...',
+        eta: 20
+      });
 
       // Simulate transcription
-      await new Promise(resolve => setTimeout(resolve, 3000));
+      await wait(signal, 3000);
 
       // Step 4: Post-process
-      yield {
-        status: 'pending',
-        progress: {
-          percentage: 80,
-          message: 'Post-processing transcription...',
-          eta: 5
-        }
-      };
+      reportProgress({
+        percentage: 80,
+        message: 'Post-processing transcription...',
+        eta: 5
+      });
 
       // Simulate post-processing
-      await new Promise(resolve => setTimeout(resolve, 1000));
+      await wait(signal, 1000);
 
       // Return success
       return {
@@ -237,6 +236,10 @@ const videoTranscriptionTool = createTool<TranscriptionInput, TranscriptionOutpu
         }
       };
     } catch (error: any) {
+      if (signal.aborted) {
+        return { status: 'cancelled' };
+      }
+
       // Handle errors with proper typing
       return {
         status: 'error',
@@ -0,0 +1,155 @@
+import { createTool, s, ToolResponse } from '../../index';
+import { compileToAnthropic, defineTool, handleToolUse, handleToolUses, UNKNOWN_TOOL_CODE } from '..';
+import { ToolDefinition } from '../types';
+
+const lookup = createTool({
+  version: '1.0.0',
+  metadata: { id: 'stock-lookup', name: 'Stock Lookup' },
+  documentation: { description: 'Look up a stock price', examples: [], limitations: [] },
+  errors: {
+    possibleErrors: [{ code: 'NOT_FOUND', description: 'Unknown ticker', isRetryable: false, suggestedUserMessage: '' }],
+    retryStrategies: []
+  },
+  execution: { canBeCancelled: false, supportsProgress: false },
+  state: { persistsBetweenCalls: false },
+  input: { ticker: s.string() },
+  output: s.object({ price: s.number() }),
+  async execute({ ticker }): Promise<ToolResponse<{ price: number }>> {
+    if (ticker === 'NOPE') {
+      return {
+        status: 'error',
+        error: { code: 'NOT_FOUND', message: 'Unknown ticker NOPE', retryable: false, userMessage: '' }
+      };
+    }
+    return { status: 'success', data: { price: 42 } };
+  }
+});
+
+const echo = defineTool({
+  name: 'echo',
+  type: 'query',
+  description: 'Echo text back',
+  input: { text: 'string' },
+  execute: async ({ text }) => {
+    if (text === 'boom') throw Object.assign(new Error('Exploded'), { code: 'BOOM' });
+    return text;
+  }
+});
+
+const tools = [lookup, echo];
+
+describe('compileToAnthropic', () => {
+  it('emits the Messages API shape with optional cache_control', () => {
+    expect(compileToAnthropic(echo, { cacheControl: { type: 'ephemeral' } })).toEqual({
+      name: 'echo',
+      description: 'Echo text back',
+      input_schema: {
+        type: 'object',
+        properties: { text: { type: 'string', description: 'Parameter text of type string' } },
+        required: ['text']
+      },
+      cache_control: { type: 'ephemeral' }
+    });
+    expect(compileToAnthropic(echo)).not.toHaveProperty('cache_control');
+  });
+});
+
+describe('handleToolUse', () => {
+  it('routes to a createTool result and returns its data', async () => {
+    const result = await handleToolUse(
+      { type: 'tool_use', id: 'toolu_1', name: 'stock-lookup', input: { ticker: 'ACME' } },
+      tools
+    );
+    expect(result).toEqual({ type: 'tool_result', tool_use_id: 'toolu_1', content: '{"price":42}' });
+  });
+
+  it('sets is_error from an error response', async () => {
+    const result = await handleToolUse(
+      { type: 'tool_use', id: 'toolu_2', name: 'stock-lookup', input: { ticker: 'NOPE' } },
+      tools
+    );
+    expect(result.is_error).toBe(true);
+    expect(JSON.parse(result.content)).toEqual({ error: { code: 'NOT_FOUND', message: 'Unknown ticker NOPE' } });
+  });
+
+  it('reports invalid input paths so the model can retry', async () => {
+    const result = await handleToolUse(
+      { type: 'tool_use', id: 'toolu_3', name: 'stock-lookup', input: {} },
+      tools
+    );
+    expect(result.is_error).toBe(true);
+    expect(JSON.parse(result.content).error).toMatchObject({
+      code: 'INVALID_INPUT',
+      details: { errors: [{ path: ['ticker'], code: 'MISSING_REQUIRED' }] }
+    });
+  });
+
+  it('runs ToolDefinitions and turns thrown errors into error results', async () => {
+    const ok = await handleToolUse({ type: 'tool_use', id: 'a', name: 'echo', input: { text: 'hi' } }, tools);
+    expect(ok).toEqual({ type: 'tool_result', tool_use_id: 'a', content: 'hi' });
+
+    const failed = await handleToolUse({ type: 'tool_use', id: 'b', name: 'echo', input: { text: 'boom' } }, tools);
+    expect(failed.is_error).toBe(true);
+    expect(JSON.parse(failed.content).error).toMatchObject({ code: 'BOOM', message: 'Exploded' });
+  });
+
+  it('validates arguments for plain ToolDefinitions too', async () => {
+    const execute = jest.fn(async (input: { selector: string; count: number }) => input);
+    const click: ToolDefinition = {
+      name: 'click',
+      type: 'mutation',
+      description: 'Click an element',
+      input: { selector: 'string', count: 'number' },
+      execute
+    };
+
+    const failed = await handleToolUse({ type: 'tool_use', id: 'd', name: 'click', input: { count: 2 } }, [click]);
+    expect(failed.is_error).toBe(true);
+    expect(JSON.parse(failed.content).error).toMatchObject({
+      code: 'INVALID_INPUT',
+      details: { errors: [{ path: ['selector'] }] }
+    });
+    expect(execute).not.toHaveBeenCalled();
+
+    await handleToolUse({ type: 'tool_use', id: 'e', name: 'click', input: { selector: '#buy', count: '2' } }, [click]);
+    expect(execute).toHaveBeenCalledWith({ selector: '#buy', count: 2 }, undefined);
+  });
+
+  it('returns an error result for unknown tools', async () => {
+    const result = await handleToolUse({ type: 'tool_use', id: 'c', name: 'nope', input: {} }, tools);
+    expect(result.is_error).toBe(true);
+    expect(JSON.parse(result.content).error.code).toBe(UNKNOWN_TOOL_CODE);
+  });
+
+  it('handles every tool_use block in a message, skipping text', async () => {
+    const results = await handleToolUses([
+      { type: 'text', text: 'Let me check.' },
+      { type: 'tool_use', id: 'x', name: 'echo', input: { text: 'one' } },
+      { type: 'tool_use', id: 'y', name: 'echo', input: { text: 'two' } }
+    ], tools);
+    expect(results.map(r => [r.tool_use_id, r.content])).toEqual([['x', 'one'], ['y', 'two']]);
+  });
+
+  it('runs mutations one at a time in request order', async () => {
+    const log: string[] = [];
+    const append = defineTool({
+      name: 'append',
+      type: 'mutation',
+      description: 'Append to the log',
+      input: { text: 'string', delay: 'number' },
+      execute: async ({ text, delay }) => {
+        log.push(`start ${text}`);
+        await new Promise(resolve => setTimeout(resolve, delay));
+        log.push(`end ${text}`);
+        return text;
+      }
+    });
+
+    const results = await handleToolUses([
+      { type: 'tool_use', id: 'x', name: 'append', input: { text: 'a', delay: 20 } },
+      { type: 'tool_use', id: 'y', name: 'append', input: { text: 'b', delay: 0 } }
+    ], [append]);
+    expect(log).toEqual(['start a', 'end a', 'start b', 'end b']);
+    expect(results.map(r => r.content)).toEqual(['a', 'b']);
+  });
+});
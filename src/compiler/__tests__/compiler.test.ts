@@ -1,13 +1,15 @@
-import { compileToOpenAI, compileToAnthropic, validateTool } from '../';
+import { compileToOpenAI, compileToAnthropic, defineTool, validateTool } from '../';
 import { getClickableElements, clickElement } from '../../tools/web';
+import { ToolDefinition } from '../types';
+import { s } from '../../schema';
 
 describe('Tool Compiler', () => {
   describe('getClickableElements', () => {
     it('compiles to OpenAI format', () => {
       const openai = compileToOpenAI(getClickableElements);
       expect(openai).toEqual({
-        name: 'get_clickable_elements',
-        description: 'Get all clickable elements on the current page',
+        name: 'getClickableElements',
+        description: 'Get all clickable elements on the page',
         parameters: {
           type: 'object',
           properties: {
@@ -24,10 +26,9 @@ describe('Tool Compiler', () => {
     it('compiles to Anthropic format', () => {
       const anthropic = compileToAnthropic(getClickableElements);
       expect(anthropic).toEqual({
-        name: 'get_clickable_elements',
-        description: 'Get all clickable elements on the current page',
-        parameters: {
-          $schema: 'https://json-schema.org/draft/2020-12/schema',
+        name: 'getClickableElements',
+        description: 'Get all clickable elements on the page',
+        input_schema: {
           type: 'object',
           properties: {
             basedOnSequence: {
@@ -49,8 +50,8 @@ describe('Tool Compiler', () => {
     it('compiles to OpenAI format', () => {
       const openai = compileToOpenAI(clickElement);
       expect(openai).toEqual({
-        name: 'click_element',
-        description: 'Click a specific element on the page',
+        name: 'clickElement',
+        description: 'Click an element on the page',
         parameters: {
           type: 'object',
           properties: {
@@ -71,10 +72,9 @@ describe('Tool Compiler', () => {
     it('compiles to Anthropic format', () => {
       const anthropic = compileToAnthropic(clickElement);
       expect(anthropic).toEqual({
-        name: 'click_element',
-        description: 'Click a specific element on the page',
-        parameters: {
-          $schema: 'https://json-schema.org/draft/2020-12/schema',
+        name: 'clickElement',
+        description: 'Click an element on the page',
+        input_schema: {
           type: 'object',
           properties: {
             selector: {
@@ -113,4 +113,84 @@ describe('Tool Compiler', () => {
       expect(validateTool(badTool)).toBe(false);
     });
   });
+
+  describe('nested input schemas', () => {
+    const trainModel: ToolDefinition = {
+      name: 'train_model',
+      type: 'mutation',
+      description: 'Train a model',
+      input: {
+        dataset: s.object({
+          trainPath: s.string({ description: 'Training data location' }),
+          validationPath: s.optional(s.string()),
+          format: s.enum(['csv', 'parquet', 'json'])
+        }),
+        training: s.object({
+          epochs: s.integer({ minimum: 1 }),
+          distributedTraining: s.withDefault(s.boolean(), false)
+        }),
+        tags: s.optional(s.array(s.string()))
+      },
+      execute: async () => ({})
+    };
+
+    const expectedProperties = {
+      dataset: {
+        type: 'object',
+        properties: {
+          trainPath: { type: 'string', description: 'Training data location' },
+          validationPath: { type: 'string' },
+          format: { type: 'string', enum: ['csv', 'parquet', 'json'] }
+        },
+        required: ['trainPath', 'format']
+      },
+      training: {
+        type: 'object',
+        properties: {
+          epochs: { type: 'integer', minimum: 1 },
+          distributedTraining: { type: 'boolean', default: false }
+        },
+        required: ['epochs']
+      },
+      tags: { type: 'array', items: { type: 'string' } }
+    };
+
+    it('compiles to nested JSON Schema for OpenAI', () => {
+      expect(compileToOpenAI(trainModel).parameters).toEqual({
+        type: 'object',
+        properties: expectedProperties,
+        required: ['dataset', 'training']
+      });
+    });
+
+    it('compiles to nested JSON Schema for Anthropic', () => {
+      const { input_schema } = compileToAnthropic(trainModel);
+      expect(input_schema.properties).toEqual(expectedProperties);
+      expect(input_schema.required).toEqual(['dataset', 'training']);
+    });
+
+    it('keeps boolean shorthand as boolean', () => {
+      const tool: ToolDefinition = { ...trainModel, input: { dryRun: 'boolean' } };
+      expect(compileToOpenAI(tool).parameters.properties.dryRun.type).toBe('boolean');
+      expect(validateTool(tool)).toBe(true);
+    });
+  });
+
+  describe('defineTool output contracts', () => {
+    it('throws when execute returns something the output schema forbids', async () => {
+      const tool = defineTool({
+        name: 'count',
+        type: 'query',
+        description: 'Count things',
+        input: { q: 'string' },
+        output: { total: 'number' },
+        execute: async () => ({ total: '3' } as any)
+      });
+
+      await expect(tool.execute({ q: 'x' })).rejects.toMatchObject({
+        code: 'INVALID_OUTPUT',
+        details: { errors: [{ path: ['total'], code: 'INVALID_TYPE' }] }
+      });
+    });
+  });
 });
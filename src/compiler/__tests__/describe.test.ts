@@ -0,0 +1,86 @@
+import { createTool, s } from '../../index';
+import { compileToAnthropic, compileToOpenAI, describeTool, estimateTokens } from '..';
+
+const weather = createTool({
+  version: '1.0.0',
+  metadata: { id: 'weather.lookup', name: 'Weather' },
+  documentation: {
+    description: 'Get the current weather for a location.',
+    examples: [{ input: { location: 'Paris' }, output: { temperature: 18 }, description: 'City lookup' }],
+    limitations: ['Updates every 15 minutes', 'No data for remote islands']
+  },
+  errors: {
+    possibleErrors: [
+      { code: 'LOCATION_NOT_FOUND', description: 'Unknown location', isRetryable: false, suggestedUserMessage: '' },
+      { code: 'RATE_LIMITED', description: 'Too many requests', isRetryable: true, suggestedUserMessage: '' }
+    ],
+    retryStrategies: [{ type: 'exponential-backoff', maxAttempts: 3 }]
+  },
+  execution: { canBeCancelled: false, supportsProgress: false },
+  state: {
+    persistsBetweenCalls: false,
+    sideEffects: [{ type: 'external-service', description: 'Calls the weather API', isReversible: false }]
+  },
+  input: {
+    location: s.string({ description: 'City and country' }),
+    units: s.optional(s.enum(['metric', 'imperial']))
+  },
+  async execute() {
+    return { status: 'success' };
+  }
+});
+
+describe('describeTool', () => {
+  it('folds limitations, errors, side effects and examples into the description', () => {
+    expect(describeTool(weather)).toBe([
+      'Get the current weather for a location.',
+      '',
+      'Limitations:',
+      '- Updates every 15 minutes',
+      '- No data for remote islands',
+      '',
+      'Errors:',
+      '- LOCATION_NOT_FOUND: Unknown location',
+      '- RATE_LIMITED: Too many requests (retryable)',
+      '',
+      'Side effects:',
+      '- external-service: Calls the weather API (irreversible)',
+      '',
+      'Examples:',
+      '- City lookup: {"location":"Paris"}'
+    ].join('\n'));
+  });
+
+  it('stays within the token budget, dropping later lines first', () => {
+    const text = describeTool(weather, { tokenBudget: 30 });
+    expect(estimateTokens(text)).toBeLessThanOrEqual(30);
+    expect(text).toContain('Updates every 15 minutes');
+    expect(text).not.toContain('Examples:');
+  });
+
+  it('always keeps the base description', () => {
+    expect(describeTool(weather, { tokenBudget: 1 })).toBe('Get the current weather for a location.');
+  });
+});
+
+describe('compiling a ModernTool', () => {
+  it('compiles to OpenAI using metadata.id and the input schema', () => {
+    const compiled = compileToOpenAI(weather, { description: { tokenBudget: 20 } });
+    expect(compiled.name).toBe('weather_lookup');
+    expect(compiled.description).toBe(describeTool(weather, { tokenBudget: 20 }));
+    expect(compiled.parameters).toEqual({
+      type: 'object',
+      properties: {
+        location: { type: 'string', description: 'City and country' },
+        units: { type: 'string', enum: ['metric', 'imperial'] }
+      },
+      required: ['location']
+    });
+  });
+
+  it('compiles to Anthropic with the same parameters', () => {
+    const compiled = compileToAnthropic(weather);
+    expect(compiled.name).toBe('weather_lookup');
+    expect(compiled.input_schema.properties).toEqual(compileToOpenAI(weather).parameters.properties);
+  });
+});
@@ -0,0 +1,187 @@
+import {
+  compileToAnthropic,
+  compileToOpenAI,
+  fromJsonSchema,
+  importAnthropicTool,
+  importOpenAIFunction,
+  importOpenAPIOperation,
+  renderSchema,
+  renderToolSource
+} from '..';
+import { OpenAIFunction, OpenAPIOperation } from '../types';
+
+const weather: OpenAIFunction = {
+  name: 'get_weather',
+  description: 'Get the weather in a location',
+  parameters: {
+    type: 'object',
+    properties: {
+      location: { type: 'string', description: 'The city and state' },
+      unit: { type: 'string', enum: ['c', 'f'], default: 'c' }
+    },
+    required: ['location']
+  }
+};
+
+const updatePet: OpenAPIOperation = {
+  operationId: 'updatePet',
+  summary: 'Update a pet',
+  parameters: [
+    { name: 'petId', in: 'path', schema: { type: 'integer' } },
+    { name: 'dryRun', in: 'query', schema: { type: 'boolean' } },
+    { name: 'X-Trace', in: 'header' }
+  ],
+  requestBody: {
+    required: true,
+    content: {
+      'application/json': {
+        schema: {
+          type: 'object',
+          properties: { name: { type: 'string' }, owner: { $ref: '#/components/schemas/Owner' } },
+          required: ['name']
+        }
+      }
+    }
+  },
+  responses: {
+    '200': {
+      description: 'Updated',
+      content: { 'application/json': { schema: { type: 'object', properties: { id: { type: 'integer' } }, required: ['id'] } } }
+    },
+    '404': { description: 'Pet not found' },
+    '503': { description: 'Try again later' }
+  }
+};
+
+describe('fromJsonSchema', () => {
+  it('converts nested JSON Schema to schema nodes', () => {
+    expect(fromJsonSchema({
+      type: 'object',
+      properties: {
+        tags: { type: 'array', items: { type: 'string' }, maxItems: 5 },
+        mode: { const: 'fast' },
+        size: { type: ['integer', 'string'] },
+        extra: { type: 'object', additionalProperties: { type: 'number' } }
+      },
+      required: ['tags']
+    })).toEqual({
+      type: 'object',
+      properties: {
+        tags: { type: 'array', items: { type: 'string' }, maxItems: 5 },
+        mode: { type: 'literal', value: 'fast', optional: true },
+        size: { type: 'union', options: [{ type: 'integer' }, { type: 'string' }], optional: true },
+        extra: { type: 'object', properties: {}, additionalProperties: { type: 'number' }, optional: true }
+      }
+    });
+  });
+
+  it('treats nullable schemas as optional', () => {
+    expect(fromJsonSchema({ type: ['string', 'null'] })).toEqual({ type: 'string', optional: true });
+    expect(fromJsonSchema({ anyOf: [{ type: 'number' }, { type: 'null' }] })).toEqual({ type: 'number', optional: true });
+    expect(fromJsonSchema({ type: 'string', nullable: true })).toEqual({ type: 'string', optional: true });
+  });
+
+  it('reports what it cannot express', () => {
+    const todos: string[] = [];
+    const schema = fromJsonSchema({ $ref: '#/defs/Owner', description: 'Owner' }, ['owner'], (path, message) => {
+      todos.push(`${path.join('.')}: ${message}`);
+    });
+    expect(schema).toEqual({ type: 'unknown', description: 'Owner' });
+    expect(todos).toEqual(['owner: Unresolved $ref #/defs/Owner; accepts any value until it is inlined']);
+  });
+});
+
+describe('importOpenAIFunction', () => {
+  it('builds a skeleton that compiles back to the same function', () => {
+    const { tool } = importOpenAIFunction({ type: 'function', function: weather });
+    expect(tool.metadata).toEqual({ id: 'get_weather', name: 'Get Weather' });
+    expect(tool.errors).toEqual({ possibleErrors: [], retryStrategies: [] });
+    expect(tool.execution).toEqual({ canBeCancelled: false, supportsProgress: false });
+
+    const compiled = compileToOpenAI(tool);
+    expect(compiled.name).toBe('get_weather');
+    expect(compiled.parameters).toEqual(weather.parameters);
+  });
+
+  it('lists everything the validator would flag as todos', () => {
+    const { todos } = importOpenAIFunction(weather);
+    expect(todos.map(t => t.path.join('.'))).toEqual(expect.arrayContaining([
+      'state.sideEffects',
+      'errors.possibleErrors',
+      'documentation.description',
+      'documentation.examples',
+      'documentation.limitations',
+      'documentation.costImplications'
+    ]));
+  });
+});
+
+describe('importAnthropicTool', () => {
+  it('reads input_schema', () => {
+    const { tool } = importAnthropicTool({ name: 'get_weather', input_schema: weather.parameters });
+    expect(compileToAnthropic(tool).input_schema).toEqual(weather.parameters);
+    expect(tool.documentation.description).toBe('');
+  });
+});
+
+describe('importOpenAPIOperation', () => {
+  const { tool, todos } = importOpenAPIOperation(updatePet, { method: 'put', path: '/pets/{petId}' });
+
+  it('merges parameters and body properties into the input', () => {
+    expect(tool.input).toEqual({
+      petId: { type: 'integer' },
+      dryRun: { type: 'boolean', optional: true },
+      name: { type: 'string' },
+      owner: { type: 'unknown', optional: true }
+    });
+    expect(tool.output).toEqual({ type: 'object', properties: { id: { type: 'integer' } } });
+  });
+
+  it('maps error responses, retries and side effects', () => {
+    expect(tool.errors.possibleErrors).toEqual([
+      { code: 'HTTP_404', description: 'Pet not found', isRetryable: false, suggestedUserMessage: '' },
+      { code: 'HTTP_503', description: 'Try again later', isRetryable: true, suggestedUserMessage: '' }
+    ]);
+    expect(tool.errors.retryStrategies).toHaveLength(1);
+    expect(tool.state.sideEffects).toEqual([
+      { type: 'external-service', description: 'PUT /pets/{petId}', isReversible: false }
+    ]);
+  });
+
+  it('derives an id when there is no operationId', () => {
+    const { tool } = importOpenAPIOperation({}, { method: 'get', path: '/pets/{petId}' });
+    expect(tool.metadata.id).toBe('get_pets_petId');
+    expect(tool.state.sideEffects).toBeUndefined();
+  });
+
+  it('reports skipped parameters and unresolved references', () => {
+    expect(todos).toEqual(expect.arrayContaining([
+      { path: ['input'], message: 'header parameter X-Trace was not imported; supply it in execute' },
+      { path: ['input', 'owner'], message: 'Unresolved $ref #/components/schemas/Owner; accepts any value until it is inlined' },
+      { path: ['errors', 'possibleErrors', '0', 'suggestedUserMessage'], message: 'User message is recommended' }
+    ]));
+  });
+});
+
+describe('renderToolSource', () => {
+  it('renders schemas as builder calls', () => {
+    expect(renderSchema({ type: 'string', optional: true })).toBe('s.optional(s.string())');
+    expect(renderSchema({ type: 'integer', minimum: 1, default: 10, optional: true })).toBe(
+      's.withDefault(s.integer({ minimum: 1 }), 10)'
+    );
+    expect(renderSchema({ type: 'object', properties: {}, additionalProperties: { type: 'number' } })).toBe(
+      's.record(s.number())'
+    );
+  });
+
+  it('renders a createTool module with TODO comments', () => {
+    const source = renderToolSource(importOpenAIFunction(weather), { importFrom: '../src' });
+    expect(source).toContain("import { createTool, s } from '../src';");
+    expect(source).toContain('export const getWeather = createTool({');
+    expect(source).toContain("    location: s.string({ description: 'The city and state' }),");
+    expect(source).toContain("    unit: s.withDefault(s.enum(['c', 'f']), 'c')");
+    expect(source).toContain('    // TODO: At least one possible error must be defined\n    possibleErrors: [],');
+    expect(source).toContain('    // TODO (sideEffects): Side effects are unknown; declare any the tool has');
+    expect(source).toContain("    throw new Error('Not implemented');");
+  });
+});
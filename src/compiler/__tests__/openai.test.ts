@@ -0,0 +1,179 @@
+import { createTool, s } from '../../index';
+import { compileToOpenAITool, defineTool, handleToolCalls, toStrictSchema } from '..';
+
+const search = defineTool({
+  name: 'search',
+  type: 'query',
+  description: 'Search products',
+  input: {
+    query: s.string(),
+    limit: s.withDefault(s.integer(), 10),
+    filters: s.optional(s.object({
+      store: s.optional(s.enum(['amazon', 'walmart'])),
+      inStock: s.boolean()
+    }))
+  },
+  execute: async ({ query, limit, filters }) => ({ query, limit, store: filters?.store ?? null })
+});
+
+describe('compileToOpenAITool', () => {
+  it('wraps the function for the tools array', () => {
+    const tool = compileToOpenAITool(search);
+    expect(tool.type).toBe('function');
+    expect(tool.function.name).toBe('search');
+    expect(tool.function.parameters.required).toEqual(['query']);
+    expect(tool.function).not.toHaveProperty('strict');
+  });
+
+  it('emits a strict-mode schema with nullable optional fields', () => {
+    expect(compileToOpenAITool(search, { strict: true })).toEqual({
+      type: 'function',
+      function: {
+        name: 'search',
+        description: 'Search products',
+        strict: true,
+        parameters: {
+          type: 'object',
+          properties: {
+            query: { type: 'string' },
+            limit: { type: ['integer', 'null'], description: 'Defaults to 10.' },
+            filters: {
+              type: ['object', 'null'],
+              properties: {
+                store: { type: ['string', 'null'], enum: ['amazon', 'walmart', null] },
+                inStock: { type: 'boolean' }
+              },
+              required: ['store', 'inStock'],
+              additionalProperties: false
+            }
+          },
+          required: ['query', 'limit', 'filters'],
+          additionalProperties: false
+        }
+      }
+    });
+  });
+});
+
+describe('toStrictSchema', () => {
+  it('makes optional unions nullable and closes nested objects', () => {
+    expect(toStrictSchema({
+      type: 'object',
+      properties: {
+        id: { anyOf: [{ type: 'string' }, { type: 'number' }] },
+        items: { type: 'array', items: { type: 'object', properties: { a: { type: 'string' } }, required: [] } }
+      },
+      required: ['items']
+    })).toEqual({
+      type: 'object',
+      properties: {
+        id: { anyOf: [{ type: 'string' }, { type: 'number' }, { type: 'null' }] },
+        items: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: { a: { type: ['string', 'null'] } },
+            required: ['a'],
+            additionalProperties: false
+          }
+        }
+      },
+      required: ['id', 'items'],
+      additionalProperties: false
+    });
+  });
+});
+
+describe('handleToolCalls', () => {
+  it('dispatches each tool call and keys replies by tool_call_id', async () => {
+    const replies = await handleToolCalls({
+      choices: [{
+        message: {
+          role: 'assistant',
+          content: null,
+          tool_calls: [
+            // Strict mode sends null for omitted optional fields
+            { id: 'call_1', type: 'function', function: { name: 'search', arguments: '{"query":"eggs","limit":null,"filters":null}' } },
+            { id: 'call_2', type: 'function', function: { name: 'search', arguments: '{"query":"milk","limit":"3","filters":{"store":"amazon","inStock":true}}' } }
+          ]
+        }
+      }]
+    }, [search]);
+
+    expect(replies).toEqual([
+      { role: 'tool', tool_call_id: 'call_1', content: '{"query":"eggs","limit":10,"store":null}' },
+      { role: 'tool', tool_call_id: 'call_2', content: '{"query":"milk","limit":3,"store":"amazon"}' }
+    ]);
+  });
+
+  it('reports bad JSON and unknown tools in the reply content', async () => {
+    const replies = await handleToolCalls({
+      role: 'assistant',
+      tool_calls: [
+        { id: 'a', type: 'function', function: { name: 'search', arguments: '{"query":' } },
+        { id: 'b', type: 'function', function: { name: 'missing', arguments: '{}' } }
+      ]
+    }, [search]);
+
+    expect(JSON.parse(replies[0].content).error.code).toBe('INVALID_ARGUMENTS');
+    expect(JSON.parse(replies[1].content).error.code).toBe('UNKNOWN_TOOL');
+  });
+
+  it('runs mutations one at a time in request order', async () => {
+    const log: string[] = [];
+    const append = defineTool({
+      name: 'append',
+      type: 'mutation',
+      description: 'Append to the log',
+      input: { text: 'string', delay: 'number' },
+      execute: async ({ text, delay }) => {
+        log.push(`start ${text}`);
+        await new Promise(resolve => setTimeout(resolve, delay));
+        log.push(`end ${text}`);
+        return text;
+      }
+    });
+
+    const replies = await handleToolCalls({
+      role: 'assistant',
+      tool_calls: [
+        { id: 'a', type: 'function', function: { name: 'append', arguments: '{"text":"a","delay":20}' } },
+        { id: 'b', type: 'function', function: { name: 'append', arguments: '{"text":"b","delay":0}' } }
+      ]
+    }, [append]);
+    expect(log).toEqual(['start a', 'end a', 'start b', 'end b']);
+    expect(replies.map(r => r.content)).toEqual(['a', 'b']);
+  });
+
+  it('keeps to parallelExecutionLimit for parallel queries', async () => {
+    let running = 0;
+    let peak = 0;
+    const render = createTool<{ id: string }, string>({
+      version: '1.0.0',
+      metadata: { id: 'render', name: 'Render' },
+      documentation: { description: 'Render a page', examples: [], limitations: [] },
+      errors: { possibleErrors: [], retryStrategies: [] },
+      execution: { canBeCancelled: false, supportsProgress: false, parallelExecutionLimit: 2 },
+      state: { persistsBetweenCalls: false },
+      execute: async ({ id }) => {
+        peak = Math.max(peak, ++running);
+        await new Promise(resolve => setTimeout(resolve, 5));
+        running--;
+        return { status: 'success', data: id };
+      }
+    });
+
+    const replies = await handleToolCalls({
+      role: 'assistant',
+      tool_calls: ['1', '2', '3', '4'].map(id => (
+        { id, type: 'function' as const, function: { name: 'render', arguments: JSON.stringify({ id }) } }
+      ))
+    }, [render]);
+    expect(peak).toBe(2);
+    expect(replies.map(r => r.content)).toEqual(['1', '2', '3', '4']);
+  });
+
+  it('returns nothing when there are no tool calls', async () => {
+    expect(await handleToolCalls({ choices: [{ message: { role: 'assistant', content: 'Hi' } }] }, [search])).toEqual([]);
+  });
+});
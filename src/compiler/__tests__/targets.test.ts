@@ -0,0 +1,99 @@
+import { s } from '../../index';
+import { ValidationWarningCode } from '../../validation';
+import { compileToGemini, compileToGeminiTool, compileToLocal, defineTool } from '..';
+
+const train = defineTool({
+  name: 'train',
+  type: 'mutation',
+  description: 'Train a model',
+  input: {
+    path: s.string({ pattern: '^s3://' }),
+    format: s.enum(['csv', 'parquet']),
+    epochs: s.withDefault(s.integer({ minimum: 1 }), 10),
+    seed: s.optional(s.union([s.number(), s.string()])),
+    level: s.enum([1, 2, 3]),
+    hyperparameters: s.record(s.number())
+  },
+  execute: async () => ({})
+});
+
+const ping = defineTool({ name: 'ping', type: 'query', description: 'Ping', input: {}, execute: async () => 'pong' });
+
+function paths(warnings: Array<{ path: string[]; code: string }>) {
+  return warnings.map(w => {
+    expect(w.code).toBe(ValidationWarningCode.LOSSY_CONVERSION);
+    return w.path.join('.');
+  });
+}
+
+describe('compileToGemini', () => {
+  it('emits an OpenAPI-subset declaration', () => {
+    const { tool } = compileToGemini(train);
+    expect(tool).toEqual({
+      name: 'train',
+      description: 'Train a model',
+      parameters: {
+        type: 'OBJECT',
+        properties: {
+          path: { type: 'STRING' },
+          format: { type: 'STRING', enum: ['csv', 'parquet'] },
+          epochs: { type: 'INTEGER', description: 'Defaults to 10.', minimum: 1 },
+          seed: { type: 'NUMBER' },
+          level: { type: 'NUMBER', description: 'One of: 1, 2, 3.' },
+          hyperparameters: { type: 'OBJECT', properties: {}, required: [] }
+        },
+        required: ['path', 'format', 'level', 'hyperparameters']
+      }
+    });
+  });
+
+  it('warns for every lossy downgrade', () => {
+    const { validation } = compileToGemini(train);
+    expect(validation.isValid).toBe(true);
+    expect(paths(validation.warnings)).toEqual([
+      'input.path',
+      'input.epochs',
+      'input.seed',
+      'input.level',
+      'input.hyperparameters'
+    ]);
+  });
+
+  it('omits parameters for tools without arguments and has no warnings', () => {
+    expect(compileToGemini(ping)).toEqual({
+      tool: { name: 'ping', description: 'Ping' },
+      validation: { isValid: true, errors: [], warnings: [] }
+    });
+  });
+
+  it('groups declarations and prefixes warnings with the tool name', () => {
+    const { tool, validation } = compileToGeminiTool([ping, train]);
+    expect(tool.functionDeclarations.map(d => d.name)).toEqual(['ping', 'train']);
+    expect(validation.warnings[0].path).toEqual(['train', 'input', 'path']);
+  });
+});
+
+describe('compileToLocal', () => {
+  it('keeps the OpenAI tools shape with a reduced schema', () => {
+    const { tool } = compileToLocal(train);
+    expect(tool.type).toBe('function');
+    expect(tool.function.parameters.properties).toEqual({
+      path: { type: 'string', description: 'Must be matching ^s3://.' },
+      format: { type: 'string', enum: ['csv', 'parquet'] },
+      epochs: { type: 'integer', description: 'Defaults to 10. Must be minimum 1.' },
+      seed: { type: ['number', 'string'] },
+      level: { type: 'number', enum: [1, 2, 3] },
+      hyperparameters: { type: 'object', properties: {}, required: [] }
+    });
+  });
+
+  it('warns for dropped features', () => {
+    const { validation } = compileToLocal(train);
+    expect(paths(validation.warnings)).toEqual([
+      'input.path',
+      'input.epochs',
+      'input.epochs',
+      'input.hyperparameters'
+    ]);
+  });
+});
@@ -0,0 +1,51 @@
+import { InvokeOptions } from '../runtime';
+import { dispatchInOrder, dispatchTool, DispatchableTool, formatToolResult } from './dispatch';
+import { AnthropicToolResultBlock, AnthropicToolUseBlock } from './types';
+
+export function isToolUseBlock(block: unknown): block is AnthropicToolUseBlock {
+  const candidate = block as Partial<AnthropicToolUseBlock> | null;
+  return (
+    typeof candidate === 'object' && candidate !== null &&
+    candidate.type === 'tool_use' &&
+    typeof candidate.id === 'string' &&
+    typeof candidate.name === 'string'
+  );
+}
+
+/**
+ * Route a tool_use block to its tool and build the matching tool_result.
+ * is_error is set whenever the response isn't a success, including
+ * unknown tools, invalid input and cancellation.
+ */
+export async function handleToolUse(
+  block: AnthropicToolUseBlock,
+  tools: DispatchableTool[],
+  opts: InvokeOptions = {}
+): Promise<AnthropicToolResultBlock> {
+  const response = await dispatchTool(tools, block.name, block.input, opts);
+  return {
+    type: 'tool_result',
+    tool_use_id: block.id,
+    content: formatToolResult(response),
+    ...(response.status !== 'success' && { is_error: true })
+  };
+}
+
+/**
+ * Handle every tool_use block in an assistant message's content.
+ * Queries run in parallel and mutations in request order, see
+ * dispatchInOrder. The results go back as the content of the next user
+ * message.
+ */
+export function handleToolUses(
+  content: unknown[],
+  tools: DispatchableTool[],
+  opts: InvokeOptions = {}
+): Promise<AnthropicToolResultBlock[]> {
+  return dispatchInOrder(
+    content.filter(isToolUseBlock),
+    block => block.name,
+    tools,
+    block => handleToolUse(block, tools, opts)
+  );
+}
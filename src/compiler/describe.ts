@@ -0,0 +1,66 @@
+import { ModernTool } from '../index';
+
+// Default token budget for descriptions folded from a ModernTool
+export const DEFAULT_DESCRIPTION_BUDGET = 256;
+
+export type DescribeOptions = {
+  // Approximate max tokens for the whole description
+  tokenBudget?: number;
+};
+
+// Rough token count; providers don't expose their tokenizers
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+type Section = {
+  title: string;
+  items: string[];
+};
+
+function sections(tool: ModernTool): Section[] {
+  const { documentation, errors, state } = tool;
+  return [
+    {
+      title: 'Limitations',
+      items: documentation.limitations ?? []
+    },
+    {
+      title: 'Errors',
+      items: (errors.possibleErrors ?? []).map(e =>
+        `${e.code}: ${e.description}${e.isRetryable ? ' (retryable)' : ''}`)
+    },
+    {
+      title: 'Side effects',
+      items: (state.sideEffects ?? []).map(e =>
+        `${e.type}: ${e.description}${e.isReversible ? '' : ' (irreversible)'}`)
+    },
+    {
+      title: 'Examples',
+      items: (documentation.examples ?? []).map(e =>
+        `${e.description}: ${JSON.stringify(e.input)}`)
+    }
+  ];
+}
+
+/**
+ * Fold a ModernTool's documentation into one description string for
+ * providers that only take a description. Sections are added in order
+ * (limitations, errors, side effects, examples) one line at a time
+ * until the token budget runs out; the base description always stays.
+ */
+export function describeTool(tool: ModernTool, options: DescribeOptions = {}): string {
+  const budget = options.tokenBudget ?? DEFAULT_DESCRIPTION_BUDGET;
+  let text = tool.documentation.description;
+
+  for (const { title, items } of sections(tool)) {
+    let block = '';
+    for (const item of items) {
+      const next = `${block || `\n\n${title}:`}\n- ${item}`;
+      if (estimateTokens(text + next) > budget) break;
+      block = next;
+    }
+    text += block;
+  }
+  return text;
+}
@@ -0,0 +1,141 @@
+import { ExecutableTool, ToolError, ToolResponse } from '../index';
+import { invokeTool, InvokeOptions, toToolError } from '../runtime';
+import { invalidInputError, parseInput } from '../schema';
+import { CompilableTool, ToolDefinition } from './types';
+
+export const UNKNOWN_TOOL_CODE = 'UNKNOWN_TOOL';
+
+// Tools a provider response can be routed to
+export type DispatchableTool = ToolDefinition | ExecutableTool;
+
+// Provider function names only allow letters, digits, _ and -
+export function toolName(tool: CompilableTool): string {
+  return 'metadata' in tool
+    ? tool.metadata.id.replace(/[^a-zA-Z0-9_-]/g, '_').slice(0, 64)
+    : tool.name;
+}
+
+function findTool(tools: DispatchableTool[], name: string): DispatchableTool | undefined {
+  return tools.find(t => toolName(t) === name);
+}
+
+// ExecutableTools have no query/mutation type; treat any that keep state
+// or declare side effects as mutations. Unknown tools fail without running.
+function isQuery(tool: DispatchableTool | undefined): boolean {
+  if (!tool) return true;
+  if ('metadata' in tool) {
+    return !tool.state.persistsBetweenCalls && !tool.state.sideEffects?.length;
+  }
+  return tool.type === 'query';
+}
+
+// Most calls of one ExecutableTool that may run at once
+function limitOf(tool: DispatchableTool | undefined): number {
+  return tool && 'metadata' in tool ? tool.execution.parallelExecutionLimit ?? Infinity : Infinity;
+}
+
+/**
+ * Run the calls from one model turn. Consecutive queries run in
+ * parallel, up to each ExecutableTool's parallelExecutionLimit; each
+ * mutation waits for the calls before it and finishes before later
+ * calls start, so state changes apply in request order. Results come
+ * back in call order.
+ */
+export async function dispatchInOrder<C, R>(
+  calls: C[],
+  nameOf: (call: C) => string,
+  tools: DispatchableTool[],
+  run: (call: C) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = [];
+  let queries: number[] = [];
+  const flush = async () => {
+    const byTool = new Map<DispatchableTool | undefined, number[]>();
+    for (const i of queries) {
+      const tool = findTool(tools, nameOf(calls[i]));
+      byTool.set(tool, [...byTool.get(tool) ?? [], i]);
+    }
+    // Each lane takes the tool's next waiting call until none are left
+    await Promise.all([...byTool].flatMap(([tool, pending]) =>
+      Array.from({ length: Math.min(limitOf(tool), pending.length) }, async () => {
+        for (let i = pending.shift(); i !== undefined; i = pending.shift()) {
+          results[i] = await run(calls[i]);
+        }
+      })
+    ));
+    queries = [];
+  };
+
+  for (let i = 0; i < calls.length; i++) {
+    if (isQuery(findTool(tools, nameOf(calls[i])))) {
+      queries.push(i);
+      continue;
+    }
+    await flush();
+    results[i] = await run(calls[i]);
+  }
+  await flush();
+  return results;
+}
+
+/**
+ * Run the tool the model called by its compiled name. ExecutableTools
+ * go through invokeTool (validation, retries, fallbacks). ToolDefinitions
+ * have their arguments checked against `input` (INVALID_INPUT when they
+ * don't match) and are then executed directly; whatever they return is
+ * the data, and thrown errors become error responses. With a session,
+ * errors that map to a frame error code carry an error frame of the
+ * current state. Never throws.
+ */
+export async function dispatchTool(
+  tools: DispatchableTool[],
+  name: string,
+  input: unknown,
+  opts: InvokeOptions = {}
+): Promise<ToolResponse> {
+  const tool = findTool(tools, name);
+  if (!tool) {
+    return {
+      status: 'error',
+      error: {
+        code: UNKNOWN_TOOL_CODE,
+        message: `No tool named ${name}`,
+        retryable: false,
+        userMessage: 'The model called a tool that does not exist.'
+      }
+    };
+  }
+
+  if ('metadata' in tool) {
+    const { response } = await invokeTool(tool, input, opts);
+    return response;
+  }
+  const parsed = parseInput(tool.input, input);
+  if (!parsed.success) {
+    return { status: 'error', error: invalidInputError(parsed.errors) };
+  }
+  try {
+    return { status: 'success', data: await tool.execute(parsed.value, opts.session) };
+  } catch (e) {
+    return { status: 'error', error: toToolError(opts.session?.toFrameError(e) ?? e) };
+  }
+}
+
+function describeError(error: ToolError | undefined): string {
+  const body = { error: { code: error?.code, message: error?.message, details: error?.details } };
+  try {
+    return JSON.stringify(body);
+  } catch {
+    // details can hold anything; drop it rather than fail the reply
+    return JSON.stringify({ error: { code: error?.code, message: error?.message } });
+  }
+}
+
+// Text sent back to the model for a response
+export function formatToolResult(response: ToolResponse): string {
+  if (response.status !== 'success') {
+    return describeError(response.error);
+  }
+  if (response.data === undefined) return '';
+  return typeof response.data === 'string' ? response.data : JSON.stringify(response.data);
+}
@@ -0,0 +1,320 @@
+import { ErrorType } from '../index';
+import { Primitive, Schema } from '../schema';
+import { ToolValidator } from '../validation';
+import {
+  AnthropicToolSource,
+  ImportedTool,
+  ImportOptions,
+  ImportResult,
+  ImportTodo,
+  OpenAIFunctionSource,
+  OpenAITool,
+  OpenAPIContent,
+  OpenAPIImportOptions,
+  OpenAPIOperation,
+  SourceJsonSchema
+} from './types';
+
+// Records something the importer left for a human, at `path` in the tool
+type Todo = (path: string[], message: string) => void;
+
+// HTTP methods that don't change anything on the server
+const SAFE_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+function compact<T extends object>(value: T): T {
+  return Object.fromEntries(
+    Object.entries(value).filter(([, v]) => v !== undefined)
+  ) as T;
+}
+
+function isPrimitive(value: unknown): value is Primitive {
+  return ['string', 'number', 'boolean'].includes(typeof value);
+}
+
+/**
+ * Convert JSON Schema from an existing definition to a schema node.
+ * Keywords the DSL can't express ($ref, allOf, non-primitive enums)
+ * become `unknown` and are reported through `todo`. A schema that
+ * allows null becomes optional, since null is treated as omitted.
+ */
+export function fromJsonSchema(json: SourceJsonSchema, path: string[] = [], todo: Todo = () => undefined): Schema {
+  const base = compact({ description: json.description ?? json.title, default: json.default });
+  const nullable = json.nullable || (Array.isArray(json.type) && json.type.includes('null'));
+  const schema = convert(json, base, path, todo);
+  return nullable ? { ...schema, optional: true } : schema;
+}
+
+function convert(
+  json: SourceJsonSchema,
+  base: { description?: string; default?: unknown },
+  path: string[],
+  todo: Todo
+): Schema {
+  if (json.$ref) {
+    todo(path, `Unresolved $ref ${json.$ref}; accepts any value until it is inlined`);
+    return { type: 'unknown', ...base };
+  }
+  if (json.allOf) {
+    if (json.allOf.length === 1) {
+      const { allOf, ...rest } = json;
+      return fromJsonSchema({ ...allOf[0], ...rest }, path, todo);
+    }
+    todo(path, 'allOf is not supported; accepts any value until it is merged by hand');
+    return { type: 'unknown', ...base };
+  }
+
+  if (json.const !== undefined) {
+    if (isPrimitive(json.const)) {
+      return { type: 'literal', value: json.const, ...base };
+    }
+    todo(path, 'Only primitive const values are supported; accepts any value');
+    return { type: 'unknown', ...base };
+  }
+
+  const options = json.anyOf ?? json.oneOf;
+  if (options) {
+    const present = options.filter(o => o.type !== 'null');
+    const converted = present.map((o, i) => fromJsonSchema(o, [...path, i.toString()], todo));
+    const schema: Schema = converted.length === 1
+      ? { ...converted[0], ...base }
+      : { type: 'union', options: converted, ...base };
+    return present.length < options.length ? { ...schema, optional: true } : schema;
+  }
+
+  if (json.enum) {
+    const values = json.enum.filter(v => v !== null);
+    if (!values.every(isPrimitive)) {
+      todo(path, 'Only primitive enum values are supported; accepts any value');
+      return { type: 'unknown', ...base };
+    }
+    return values.length === 1
+      ? { type: 'literal', value: values[0], ...base }
+      : { type: 'enum', values, ...base };
+  }
+
+  const types = json.type === undefined ? [] : Array.isArray(json.type) ? json.type : [json.type];
+  const present = types.filter(t => t !== 'null');
+  if (present.length > 1) {
+    return {
+      type: 'union',
+      options: present.map(type => fromJsonSchema({ ...json, type, description: undefined, default: undefined }, path, todo)),
+      ...base
+    };
+  }
+
+  const type = present[0] ?? (json.properties ? 'object' : undefined);
+  switch (type) {
+    case 'string':
+      return compact({
+        type: 'string',
+        ...base,
+        format: json.format,
+        pattern: json.pattern,
+        minLength: json.minLength,
+        maxLength: json.maxLength
+      });
+    case 'number':
+    case 'integer':
+      return compact({ type, ...base, minimum: json.minimum, maximum: json.maximum });
+    case 'boolean':
+      return { type: 'boolean', ...base };
+    case 'array':
+      return compact({
+        type: 'array',
+        ...base,
+        items: json.items ? fromJsonSchema(json.items, [...path, 'items'], todo) : { type: 'unknown' },
+        minItems: json.minItems,
+        maxItems: json.maxItems
+      });
+    case 'object':
+      return compact({
+        type: 'object',
+        ...base,
+        properties: fieldsFromJsonSchema(json, path, todo, 'properties'),
+        additionalProperties: typeof json.additionalProperties === 'object'
+          ? fromJsonSchema(json.additionalProperties, [...path, 'additionalProperties'], todo)
+          : json.additionalProperties
+      });
+    case undefined:
+      return { type: 'unknown', ...base };
+    default:
+      todo(path, `Type ${type} is not supported; accepts any value`);
+      return { type: 'unknown', ...base };
+  }
+}
+
+// Named fields of an object schema; fields missing from `required` are optional
+function fieldsFromJsonSchema(
+  json: SourceJsonSchema,
+  path: string[],
+  todo: Todo,
+  segment?: string
+): Record<string, Schema> {
+  const required = json.required ?? [];
+  const fields: Record<string, Schema> = {};
+  for (const [key, property] of Object.entries(json.properties ?? {})) {
+    const field = fromJsonSchema(property, segment ? [...path, segment, key] : [...path, key], todo);
+    fields[key] = required.includes(key) ? field : { ...field, optional: true };
+  }
+  return fields;
+}
+
+// 'get_weather', 'getWeather' -> 'Get Weather'
+function humanize(id: string): string {
+  return id
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .split(/[^a-zA-Z0-9]+/)
+    .filter(Boolean)
+    .map(word => word[0].toUpperCase() + word.slice(1))
+    .join(' ');
+}
+
+function skeleton(id: string, description: string | undefined, options: ImportOptions): ImportedTool {
+  return {
+    version: options.version ?? '1.0.0',
+    metadata: compact({ id, name: humanize(id), category: options.category }),
+    documentation: { description: description ?? '', examples: [], limitations: [] },
+    errors: { possibleErrors: [], retryStrategies: [] },
+    execution: { canBeCancelled: false, supportsProgress: false },
+    state: { persistsBetweenCalls: false },
+    input: {}
+  };
+}
+
+function collectTodos() {
+  const todos: ImportTodo[] = [];
+  const todo: Todo = (path, message) => {
+    todos.push({ path, message });
+  };
+  // Everything the validator still flags is left for a human too
+  const result = (tool: ImportedTool): ImportResult => {
+    const { errors, warnings } = new ToolValidator().validate(tool);
+    return {
+      tool,
+      todos: [...todos, ...[...errors, ...warnings].map(({ path, message }) => ({ path, message }))]
+    };
+  };
+  return { todo, result };
+}
+
+function importObjectTool(
+  name: string,
+  description: string | undefined,
+  parameters: SourceJsonSchema | undefined,
+  options: ImportOptions
+): ImportResult {
+  const { todo, result } = collectTodos();
+  const tool = skeleton(name, description, options);
+
+  if (parameters && parameters.type !== undefined && parameters.type !== 'object') {
+    todo(['input'], `Parameters must be an object schema, got ${JSON.stringify(parameters.type)}`);
+  } else if (parameters) {
+    tool.input = fieldsFromJsonSchema(parameters, ['input'], todo);
+  }
+  todo(['state', 'sideEffects'], 'Side effects are unknown; declare any the tool has');
+  return result(tool);
+}
+
+/**
+ * Build a ModernTool skeleton from an OpenAI function definition (or a
+ * `tools` entry wrapping one). The id stays the function name, so the
+ * compiled tool keeps the name the model already knows. `todos` lists
+ * what still needs a human: missing errors, examples, limitations and
+ * anything the schema conversion couldn't express.
+ */
+export function importOpenAIFunction(
+  source: OpenAIFunctionSource | OpenAITool,
+  options: ImportOptions = {}
+): ImportResult {
+  const fn = 'function' in source ? source.function : source;
+  return importObjectTool(fn.name, fn.description, fn.parameters, options);
+}
+
+/**
+ * Build a ModernTool skeleton from an Anthropic tool definition, see
+ * importOpenAIFunction.
+ */
+export function importAnthropicTool(source: AnthropicToolSource, options: ImportOptions = {}): ImportResult {
+  return importObjectTool(source.name, source.description, source.input_schema, options);
+}
+
+function jsonSchemaOf(content: OpenAPIContent | undefined): SourceJsonSchema | undefined {
+  const type = Object.keys(content ?? {}).find(t => t === 'application/json' || t.endsWith('+json'));
+  return type ? content?.[type].schema : undefined;
+}
+
+/**
+ * Build a ModernTool skeleton from an OpenAPI operation. Path and query
+ * parameters and JSON request body properties become input fields,
+ * the first JSON 2xx response becomes the output schema, and 4xx/5xx
+ * responses become HTTP_<status> errors (429 and 5xx retryable, with a
+ * default backoff). Non-GET operations declare an external-service
+ * side effect.
+ */
+export function importOpenAPIOperation(operation: OpenAPIOperation, options: OpenAPIImportOptions): ImportResult {
+  const { todo, result } = collectTodos();
+  const method = options.method.toUpperCase();
+  const id = operation.operationId
+    ?? `${method.toLowerCase()}_${options.path}`.replace(/[^a-zA-Z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+  const description = [operation.summary, operation.description].filter(Boolean).join('\n\n') || undefined;
+  const tool = skeleton(id, description, options);
+
+  for (const parameter of operation.parameters ?? []) {
+    if (parameter.in === 'header' || parameter.in === 'cookie') {
+      todo(['input'], `${parameter.in} parameter ${parameter.name} was not imported; supply it in execute`);
+      continue;
+    }
+    const field = fromJsonSchema(
+      { ...parameter.schema, description: parameter.description ?? parameter.schema?.description },
+      ['input', parameter.name],
+      todo
+    );
+    tool.input[parameter.name] = parameter.required || parameter.in === 'path' ? field : { ...field, optional: true };
+  }
+
+  const body = operation.requestBody;
+  const bodySchema = jsonSchemaOf(body?.content);
+  if (body && !bodySchema) {
+    todo(['input'], `Request body (${Object.keys(body.content ?? {}).join(', ')}) was not imported`);
+  } else if (bodySchema?.properties) {
+    for (const [key, field] of Object.entries(fieldsFromJsonSchema(bodySchema, ['input'], todo))) {
+      if (key in tool.input) {
+        todo(['input', key], `Body property ${key} clashes with a parameter of the same name and was not imported`);
+        continue;
+      }
+      tool.input[key] = body?.required ? field : { ...field, optional: true };
+    }
+  } else if (bodySchema) {
+    const field = fromJsonSchema({ ...bodySchema, description: body?.description ?? bodySchema.description }, ['input', 'body'], todo);
+    tool.input.body = body?.required ? field : { ...field, optional: true };
+  }
+
+  const errors: ErrorType[] = [];
+  for (const [status, response] of Object.entries(operation.responses ?? {})) {
+    const code = Number(status);
+    if (code >= 200 && code < 300 && !tool.output) {
+      const schema = jsonSchemaOf(response.content);
+      if (schema) tool.output = fromJsonSchema(schema, ['output'], todo);
+    } else if (code >= 400) {
+      errors.push({
+        code: `HTTP_${status}`,
+        description: response.description ?? `HTTP ${status}`,
+        isRetryable: code === 429 || code >= 500,
+        suggestedUserMessage: ''
+      });
+    }
+  }
+  tool.errors.possibleErrors = errors;
+  if (errors.some(e => e.isRetryable)) {
+    tool.errors.retryStrategies = [{ type: 'exponential-backoff', maxAttempts: 3, initialDelay: 1000 }];
+  }
+
+  if (!SAFE_METHODS.includes(method)) {
+    tool.state.sideEffects = [{
+      type: 'external-service',
+      description: `${method} ${options.path}`,
+      isReversible: false
+    }];
+  }
+  return result(tool);
+}
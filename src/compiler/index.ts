@@ -1,42 +1,209 @@
-import { ToolDefinition, OpenAIFunction, AnthropicFunction } from './types';
+import {
+  ToolDefinition,
+  OpenAIFunction,
+  AnthropicFunction,
+  TypedToolDefinition,
+  CompilableTool,
+  CompileOptions,
+  AnthropicCompileOptions,
+  OpenAICompileOptions,
+  OpenAITool,
+  GeminiFunctionDeclaration,
+  GeminiSchema,
+  GeminiTool,
+  TargetResult
+} from './types';
+import { toStrictSchema } from './openai';
+import { collectWarnings, toGeminiSchema, toLocalSchema } from './targets';
+import { describeTool } from './describe';
+import { toolName } from './dispatch';
+import {
+  FieldSchema,
+  InferFields,
+  InputValidationError,
+  JsonSchema,
+  OutputValidationError,
+  outputChecksEnabled,
+  parseInput,
+  propertiesToJsonSchema,
+  toJsonSchema
+} from '../schema';
 
-export function compileToOpenAI(tool: ToolDefinition): OpenAIFunction {
+export { describeTool, estimateTokens, DEFAULT_DESCRIPTION_BUDGET } from './describe';
+export { dispatchInOrder, dispatchTool, formatToolResult, toolName, UNKNOWN_TOOL_CODE } from './dispatch';
+export type { DispatchableTool } from './dispatch';
+export { handleToolUse, handleToolUses, isToolUseBlock } from './anthropic';
+export { handleToolCall, handleToolCalls, toStrictSchema } from './openai';
+export { toGeminiSchema, toLocalSchema } from './targets';
+export { fromJsonSchema, importAnthropicTool, importOpenAIFunction, importOpenAPIOperation } from './import';
+export { renderSchema, renderToolSource } from './source';
+export type { SourceOptions } from './source';
+
+/**
+ * Define a tool whose execute input (and output, if declared) is typed
+ * from its schema, so handlers can't drift from what the model is told.
+ * Arguments are checked against the schema before execute runs: safe
+ * coercions and defaults are applied, and anything else throws an
+ * InputValidationError listing each bad path. Outside production the
+ * result is checked against `output` too (OutputValidationError).
+ */
+export function defineTool<
+  I extends Record<string, FieldSchema>,
+  O extends Record<string, FieldSchema> | undefined = undefined
+>(definition: TypedToolDefinition<I, O>): TypedToolDefinition<I, O> {
   return {
-    name: tool.name,
-    description: tool.description,
-    parameters: {
-      type: 'object',
-      properties: Object.entries(tool.input).reduce((acc, [key, type]) => ({
-        ...acc,
-        [key]: {
-          type: type === 'number' ? 'number' : 'string',
-          description: `Parameter ${key} of type ${type}`
+    ...definition,
+    execute: async (input, session) => {
+      const parsed = parseInput<InferFields<I>>(definition.input, input);
+      if (!parsed.success) {
+        throw new InputValidationError(parsed.errors);
+      }
+      const result = await definition.execute(parsed.value, session);
+      if (definition.output && outputChecksEnabled()) {
+        const checked = parseInput(definition.output, result, { coerce: false });
+        if (!checked.success) {
+          throw new OutputValidationError(checked.errors);
         }
-      }), {}),
-      required: Object.keys(tool.input)
+      }
+      return result;
     }
   };
 }
 
-export function compileToAnthropic(tool: ToolDefinition): AnthropicFunction {
+// Nested JSON Schema for each input field. Shorthand fields keep their
+// generated description since they have nowhere to declare one.
+function compileProperties(input: ToolDefinition['input']): {
+  properties: Record<string, JsonSchema>;
+  required: string[];
+} {
+  const { properties, required } = propertiesToJsonSchema(input);
+  for (const [key, field] of Object.entries(input)) {
+    if (typeof field === 'string') {
+      properties[key] = { ...toJsonSchema(field), description: `Parameter ${key} of type ${field}` };
+    }
+  }
+  return { properties, required };
+}
+
+type CompiledBase = Pick<ToolDefinition, 'name' | 'description' | 'input'>;
+
+// Reduce either tool model to the fields the provider formats need
+function toCompiledBase(tool: CompilableTool, options: CompileOptions): CompiledBase {
+  if ('metadata' in tool) {
+    return {
+      name: toolName(tool),
+      description: describeTool(tool, options.description),
+      input: tool.input ?? {}
+    };
+  }
+  return tool;
+}
+
+/**
+ * Compile a ToolDefinition or a createTool result to an OpenAI function.
+ * For a ModernTool the name comes from metadata.id and the description
+ * folds in its documentation, see describeTool.
+ */
+export function compileToOpenAI(tool: CompilableTool, options: CompileOptions = {}): OpenAIFunction {
+  const base = toCompiledBase(tool, options);
   return {
-    name: tool.name,
-    description: tool.description,
+    name: base.name,
+    description: base.description,
     parameters: {
-      $schema: 'https://json-schema.org/draft/2020-12/schema',
       type: 'object',
-      properties: Object.entries(tool.input).reduce((acc, [key, type]) => ({
-        ...acc,
-        [key]: {
-          type: type === 'number' ? 'number' : 'string',
-          description: `Parameter ${key} of type ${type}`
-        }
-      }), {}),
-      required: Object.keys(tool.input)
+      ...compileProperties(base.input)
+    }
+  };
+}
+
+/**
+ * Compile to an entry for the Chat Completions `tools` array. With
+ * strict: true the parameters are rewritten for structured outputs,
+ * see toStrictSchema.
+ */
+export function compileToOpenAITool(tool: CompilableTool, options: OpenAICompileOptions = {}): OpenAITool {
+  const fn = compileToOpenAI(tool, options);
+  if (!options.strict) {
+    return { type: 'function', function: fn };
+  }
+  return {
+    type: 'function',
+    function: {
+      ...fn,
+      parameters: toStrictSchema(fn.parameters) as OpenAITool['function']['parameters'],
+      strict: true
     }
   };
 }
 
+/**
+ * Compile to a Gemini function declaration. Schema features Gemini
+ * can't express are downgraded, each with a LOSSY_CONVERSION warning.
+ */
+export function compileToGemini(
+  tool: CompilableTool,
+  options: CompileOptions = {}
+): TargetResult<GeminiFunctionDeclaration> {
+  const { warn, result } = collectWarnings();
+  const { name, description, parameters } = compileToOpenAI(tool, options);
+  const declaration: GeminiFunctionDeclaration = { name, description };
+
+  if (Object.keys(parameters.properties).length > 0) {
+    declaration.parameters = toGeminiSchema(parameters, [], warn) as GeminiSchema & { type: 'OBJECT' };
+  }
+  return result(declaration);
+}
+
+// All tools as one Gemini `tools` entry; warning paths start with the tool name
+export function compileToGeminiTool(
+  tools: CompilableTool[],
+  options: CompileOptions = {}
+): TargetResult<GeminiTool> {
+  const compiled = tools.map(tool => compileToGemini(tool, options));
+  return {
+    tool: { functionDeclarations: compiled.map(c => c.tool) },
+    validation: {
+      isValid: true,
+      errors: [],
+      warnings: compiled.flatMap(c => c.validation.warnings.map(w => ({ ...w, path: [c.tool.name, ...w.path] })))
+    }
+  };
+}
+
+/**
+ * Compile for OpenAI-compatible local servers such as Ollama or the
+ * llama.cpp server: the Chat Completions tools shape with the schema
+ * reduced to what their tool parsers read, see toLocalSchema.
+ */
+export function compileToLocal(tool: CompilableTool, options: CompileOptions = {}): TargetResult<OpenAITool> {
+  const { warn, result } = collectWarnings();
+  const fn = compileToOpenAI(tool, options);
+  return result({
+    type: 'function',
+    function: {
+      ...fn,
+      parameters: toLocalSchema(fn.parameters, [], warn) as OpenAITool['function']['parameters']
+    }
+  });
+}
+
+/**
+ * Compile to an entry for the Anthropic Messages API `tools` array.
+ * Pass cacheControl to add a prompt caching breakpoint.
+ */
+export function compileToAnthropic(tool: CompilableTool, options: AnthropicCompileOptions = {}): AnthropicFunction {
+  const base = toCompiledBase(tool, options);
+  return {
+    name: base.name,
+    description: base.description,
+    input_schema: {
+      type: 'object',
+      ...compileProperties(base.input)
+    },
+    ...(options.cacheControl && { cache_control: options.cacheControl })
+  };
+}
+
 // Validate a tool works with both formats
 export function validateTool(tool: ToolDefinition): boolean {
   try {
@@ -52,7 +219,7 @@ export function validateTool(tool: ToolDefinition): boolean {
     // Check all inputs are handled
     const inputKeys = Object.keys(tool.input);
     const openaiKeys = Object.keys(openai.parameters.properties);
-    const anthropicKeys = Object.keys(anthropic.parameters.properties);
+    const anthropicKeys = Object.keys(anthropic.input_schema.properties);
 
     return (
       inputKeys.every(k => openaiKeys.includes(k)) &&
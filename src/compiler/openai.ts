@@ -0,0 +1,97 @@
+import { JsonSchema } from '../schema';
+import { InvokeOptions } from '../runtime';
+import { dispatchInOrder, dispatchTool, DispatchableTool, formatToolResult } from './dispatch';
+import { OpenAIAssistantMessage, OpenAIChatCompletion, OpenAIToolCall, OpenAIToolMessage } from './types';
+
+// Let the model send null for a field it would otherwise omit
+function nullable(schema: JsonSchema): JsonSchema {
+  if (schema.anyOf) {
+    return { ...schema, anyOf: [...schema.anyOf, { type: 'null' }] };
+  }
+  if (schema.type === undefined) return schema;
+  const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+  return {
+    ...schema,
+    type: [...types, 'null'],
+    ...(schema.enum && { enum: [...schema.enum, null] })
+  };
+}
+
+/**
+ * Rewrite a JSON Schema for OpenAI strict mode: every object lists all of
+ * its properties as required and sets additionalProperties: false, and
+ * fields that were optional become nullable instead. Defaults aren't
+ * supported there, so they move into the description. Free-form records
+ * can't be expressed and end up accepting no keys.
+ */
+export function toStrictSchema(schema: JsonSchema): JsonSchema {
+  const { default: fallback, ...rest } = schema;
+  const result: JsonSchema = { ...rest };
+
+  if (fallback !== undefined) {
+    const note = `Defaults to ${JSON.stringify(fallback)}.`;
+    result.description = result.description ? `${result.description} ${note}` : note;
+  }
+  if (result.items) {
+    result.items = toStrictSchema(result.items);
+  }
+  if (result.anyOf) {
+    result.anyOf = result.anyOf.map(toStrictSchema);
+  }
+  if (result.properties) {
+    const required = new Set(result.required ?? []);
+    result.properties = Object.fromEntries(
+      Object.entries(result.properties).map(([key, value]) => {
+        const strict = toStrictSchema(value);
+        return [key, required.has(key) ? strict : nullable(strict)];
+      })
+    );
+    result.required = Object.keys(result.properties);
+    result.additionalProperties = false;
+  }
+  return result;
+}
+
+function parseArguments(call: OpenAIToolCall): { ok: true; value: unknown } | { ok: false; message: string } {
+  try {
+    return { ok: true, value: call.function.arguments ? JSON.parse(call.function.arguments) : {} };
+  } catch (e) {
+    return { ok: false, message: `Arguments are not valid JSON: ${(e as Error).message}` };
+  }
+}
+
+/**
+ * Run one tool call and build the role: 'tool' reply for it. Errors,
+ * including unparseable arguments, are reported in the content.
+ */
+export async function handleToolCall(
+  call: OpenAIToolCall,
+  tools: DispatchableTool[],
+  opts: InvokeOptions = {}
+): Promise<OpenAIToolMessage> {
+  const args = parseArguments(call);
+  const response = args.ok
+    ? await dispatchTool(tools, call.function.name, args.value, opts)
+    : {
+      status: 'error' as const,
+      error: { code: 'INVALID_ARGUMENTS', message: args.message, retryable: false, userMessage: '' }
+    };
+
+  return { role: 'tool', tool_call_id: call.id, content: formatToolResult(response) };
+}
+
+/**
+ * Dispatch every tool call in a chat completion (first choice) or an
+ * assistant message. Queries run in parallel and mutations in request
+ * order, see dispatchInOrder. Replies come back in call order, each
+ * carrying its tool_call_id, ready to append after the assistant message.
+ */
+export function handleToolCalls(
+  source: OpenAIChatCompletion | OpenAIAssistantMessage,
+  tools: DispatchableTool[],
+  opts: InvokeOptions = {}
+): Promise<OpenAIToolMessage[]> {
+  const message = 'choices' in source ? source.choices[0]?.message : source;
+  const calls = (message?.tool_calls ?? []).filter(call => call.type === 'function');
+  return dispatchInOrder(calls, call => call.function.name, tools, call => handleToolCall(call, tools, opts));
+}
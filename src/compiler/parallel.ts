@@ -1,4 +1,5 @@
 import { ToolDefinition } from './types';
+import { FrameSession } from '../frames';
 
 /**
  * Execute multiple query tools in parallel.
@@ -6,7 +7,8 @@ import { ToolDefinition } from './types';
  */
 export async function parallel<T extends any[]>(
   tools: ToolDefinition[],
-  inputs: Record<string, any>[]
+  inputs: Record<string, any>[],
+  session?: FrameSession<any>
 ): Promise<T> {
   // Validate all tools are queries
   if (!tools.every(t => t.type === 'query')) {
@@ -21,6 +23,6 @@ export async function parallel<T extends any[]>(
 
   // Execute all tools in parallel
   return Promise.all(
-    tools.map((tool, i) => tool.execute(inputs[i]))
+    tools.map((tool, i) => tool.execute(inputs[i], session))
   ) as Promise<T>;
 }
@@ -0,0 +1,173 @@
+import { Schema } from '../schema';
+import { ImportResult, ImportTodo } from './types';
+
+export type SourceOptions = {
+  // Module createTool and `s` are imported from
+  importFrom?: string;
+  // Name of the exported constant; defaults to the camel-cased tool id
+  exportName?: string;
+};
+
+const INDENT = '  ';
+
+function quote(value: string): string {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'").replace(/\n/g, '\\n')}'`;
+}
+
+function key(name: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(name) ? name : quote(name);
+}
+
+function camelCase(id: string): string {
+  const words = id.split(/[^a-zA-Z0-9]+/).filter(Boolean);
+  const name = words.map((w, i) => (i === 0 ? w[0].toLowerCase() : w[0].toUpperCase()) + w.slice(1)).join('');
+  return /^[A-Za-z_$]/.test(name) ? name : `tool${name[0]?.toUpperCase() ?? ''}${name.slice(1)}`;
+}
+
+// Single-line literal for data that isn't a schema
+function literal(value: unknown): string {
+  if (typeof value === 'string') return quote(value);
+  if (Array.isArray(value)) return `[${value.map(literal).join(', ')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value).filter(([, v]) => v !== undefined);
+    return entries.length ? `{ ${entries.map(([k, v]) => `${key(k)}: ${literal(v)}`).join(', ')} }` : '{}';
+  }
+  return String(value);
+}
+
+// Builder arguments followed by an options object, when it has any entries.
+// `rendered` holds options that are already source, such as nested schemas.
+function withOptions(args: string[], options: Record<string, unknown>, rendered: Record<string, string> = {}): string {
+  const entries = [
+    ...Object.entries(options).filter(([, v]) => v !== undefined).map(([k, v]) => `${key(k)}: ${literal(v)}`),
+    ...Object.entries(rendered).map(([k, v]) => `${key(k)}: ${v}`)
+  ];
+  return (entries.length ? [...args, `{ ${entries.join(', ')} }`] : args).join(', ');
+}
+
+/**
+ * Render a schema node as `s` builder calls, e.g.
+ * s.optional(s.array(s.string())).
+ */
+export function renderSchema(schema: Schema): string {
+  const { optional, default: fallback, ...node } = schema;
+  const inner = renderNode(node as Schema);
+  if (fallback !== undefined) return `s.withDefault(${inner}, ${literal(fallback)})`;
+  return optional ? `s.optional(${inner})` : inner;
+}
+
+function renderNode(schema: Schema): string {
+  switch (schema.type) {
+    case 'literal': {
+      const { type, value, ...options } = schema;
+      return `s.literal(${withOptions([literal(value)], options)})`;
+    }
+    case 'enum': {
+      const { type, values, ...options } = schema;
+      return `s.enum(${withOptions([literal(values)], options)})`;
+    }
+    case 'array': {
+      const { type, items, ...options } = schema;
+      return `s.array(${withOptions([renderSchema(items)], options)})`;
+    }
+    case 'object': {
+      const { type, properties, additionalProperties, ...options } = schema;
+      const keys = Object.keys(properties);
+      if (!keys.length && typeof additionalProperties === 'object') {
+        return `s.record(${withOptions([renderSchema(additionalProperties)], options)})`;
+      }
+      const fields = keys.length
+        ? `{ ${keys.map(k => `${key(k)}: ${renderSchema(properties[k])}`).join(', ')} }`
+        : '{}';
+      const extra: Record<string, string> = additionalProperties === undefined ? {} : {
+        additionalProperties: typeof additionalProperties === 'object'
+          ? renderSchema(additionalProperties)
+          : String(additionalProperties)
+      };
+      return `s.object(${withOptions([fields], options, extra)})`;
+    }
+    case 'union': {
+      const { type, options: members, ...options } = schema;
+      return `s.union(${withOptions([`[${members.map(renderSchema).join(', ')}]`], options)})`;
+    }
+    default: {
+      const { type, ...options } = schema;
+      return `s.${type}(${withOptions([], options)})`;
+    }
+  }
+}
+
+const startsWith = (path: string[], prefix: string[]) => prefix.every((segment, i) => path[i] === segment);
+
+function comments(todos: ImportTodo[], anchor: string[], depth: number): string[] {
+  const indent = INDENT.repeat(depth);
+  return todos.map(todo => {
+    const rest = todo.path.slice(anchor.length).join('.');
+    return `${indent}// TODO${rest ? ` (${rest})` : ''}: ${todo.message}`;
+  });
+}
+
+// Schemas and empty containers print on one line; todos below them attach to their key
+function isAtomic(path: string[], value: unknown): boolean {
+  if ((path.length === 2 && path[0] === 'input') || (path.length === 1 && path[0] === 'output')) return true;
+  if (!value || typeof value !== 'object') return true;
+  return Object.keys(value).length === 0;
+}
+
+function renderValue(value: unknown, path: string[], todos: ImportTodo[], depth: number): string {
+  if (path.length === 2 && path[0] === 'input') return renderSchema(value as Schema);
+  if (path.length === 1 && path[0] === 'output') return renderSchema(value as Schema);
+  if (isAtomic(path, value)) return literal(value);
+
+  const entries: Array<[string, unknown]> = Array.isArray(value)
+    ? value.map((v, i) => [i.toString(), v])
+    : Object.entries(value as object).filter(([, v]) => v !== undefined);
+  const keys = new Set(entries.map(([k]) => k));
+  const indent = INDENT.repeat(depth + 1);
+  const lines: string[] = [];
+
+  // Todos for keys the value doesn't have go at the top of the container
+  lines.push(...comments(
+    todos.filter(t => t.path.length > path.length && startsWith(t.path, path) && !keys.has(t.path[path.length])),
+    path,
+    depth + 1
+  ));
+
+  entries.forEach(([k, v], i) => {
+    const childPath = [...path, k];
+    const atomic = isAtomic(childPath, v);
+    lines.push(...comments(
+      todos.filter(t => startsWith(t.path, childPath) && (atomic || t.path.length === childPath.length)),
+      childPath,
+      depth + 1
+    ));
+    const rendered = renderValue(v, childPath, todos, depth + 1);
+    const comma = i < entries.length - 1 ? ',' : '';
+    lines.push(Array.isArray(value) ? `${indent}${rendered}${comma}` : `${indent}${key(k)}: ${rendered}${comma}`);
+  });
+
+  const [open, close] = Array.isArray(value) ? ['[', ']'] : ['{', '}'];
+  return `${open}\n${lines.join('\n')}\n${INDENT.repeat(depth)}${close}`;
+}
+
+/**
+ * Render an imported tool as a createTool module, with a `// TODO:`
+ * comment above every field the importer or validator flagged and a
+ * stub execute to port the existing implementation into.
+ */
+export function renderToolSource({ tool, todos }: ImportResult, options: SourceOptions = {}): string {
+  const body = renderValue(tool, [], todos, 0);
+  const execute = [
+    `${INDENT}async execute() {`,
+    `${INDENT}${INDENT}// TODO: port the existing implementation`,
+    `${INDENT}${INDENT}throw new Error('Not implemented');`,
+    `${INDENT}}`
+  ].join('\n');
+
+  return [
+    `import { createTool, s } from ${quote(options.importFrom ?? 'modern-ai-tool-protocol')};`,
+    '',
+    `export const ${options.exportName ?? camelCase(tool.metadata.id)} = createTool(${body.slice(0, -2)},\n${execute}\n});`,
+    ''
+  ].join('\n');
+}
@@ -0,0 +1,175 @@
+import { JsonSchema } from '../schema';
+import { ValidationWarning, ValidationWarningCode } from '../validation';
+import { GeminiSchema, GeminiType, TargetResult } from './types';
+
+// Records a lossy change at `path` (relative to the tool's input)
+type Warn = (path: string[], message: string) => void;
+
+export function collectWarnings() {
+  const warnings: ValidationWarning[] = [];
+  const warn: Warn = (path, message) => {
+    warnings.push({ path: ['input', ...path], message, code: ValidationWarningCode.LOSSY_CONVERSION });
+  };
+  const result = <T>(tool: T): TargetResult<T> => ({
+    tool,
+    validation: { isValid: true, errors: [], warnings }
+  });
+  return { warn, result };
+}
+
+function withNote(description: string | undefined, note: string): string {
+  return description ? `${description} ${note}` : note;
+}
+
+// Collapse anyOf and type lists to a single type, remembering whether null was allowed
+function singleType(schema: JsonSchema, path: string[], warn: Warn): { schema: JsonSchema; type?: string; nullable: boolean } {
+  let current = schema;
+  let nullable = false;
+
+  if (current.anyOf) {
+    const options = current.anyOf.filter(o => o.type !== 'null');
+    nullable = options.length < current.anyOf.length;
+    if (options.length > 1) {
+      warn(path, 'anyOf is not supported; only the first option is kept');
+    }
+    const { anyOf, ...rest } = current;
+    current = { ...options[0], ...rest, description: rest.description ?? options[0]?.description };
+  }
+
+  const types = current.type === undefined ? [] : Array.isArray(current.type) ? current.type : [current.type];
+  const concrete = types.filter(t => t !== 'null');
+  nullable = nullable || concrete.length < types.length;
+  if (concrete.length > 1) {
+    warn(path, `Multiple types are not supported; only ${concrete[0]} is kept`);
+  }
+  return { schema: current, type: concrete[0], nullable };
+}
+
+const GEMINI_FORMATS: Record<string, string[]> = {
+  STRING: ['enum', 'date-time'],
+  NUMBER: ['float', 'double'],
+  INTEGER: ['int32', 'int64']
+};
+
+/**
+ * Downgrade JSON Schema to the subset Gemini function declarations
+ * accept: one upper-case type per node, string-only enums, no anyOf,
+ * defaults, string constraints or free-form records.
+ */
+export function toGeminiSchema(schema: JsonSchema, path: string[], warn: Warn): GeminiSchema {
+  const { schema: source, type, nullable } = singleType(schema, path, warn);
+  let description = source.description;
+
+  if (!type) {
+    warn(path, 'Untyped values are not supported; sent as a JSON string');
+  }
+  const geminiType = (type ?? 'string').toUpperCase() as GeminiType;
+  const result: GeminiSchema = { type: geminiType };
+
+  if (source.enum) {
+    const values = source.enum.filter(v => v !== null);
+    if (values.every(v => typeof v === 'string')) {
+      result.enum = values as string[];
+    } else {
+      warn(path, 'Only string enums are supported; allowed values moved to the description');
+      description = withNote(description, `One of: ${values.map(v => JSON.stringify(v)).join(', ')}.`);
+    }
+  }
+  if (source.default !== undefined) {
+    warn(path, 'Defaults are not supported; moved to the description');
+    description = withNote(description, `Defaults to ${JSON.stringify(source.default)}.`);
+  }
+  if (source.pattern !== undefined || source.minLength !== undefined || source.maxLength !== undefined) {
+    warn(path, 'String constraints (pattern, minLength, maxLength) are not supported and were dropped');
+  }
+  if (source.format !== undefined) {
+    if (GEMINI_FORMATS[geminiType]?.includes(source.format)) {
+      result.format = source.format;
+    } else {
+      warn(path, `Format ${source.format} is not supported and was dropped`);
+    }
+  }
+  if (typeof source.additionalProperties === 'object') {
+    warn(path, 'Free-form keys (additionalProperties) are not supported; only declared properties are sent');
+  }
+
+  if (description !== undefined) result.description = description;
+  if (nullable) result.nullable = true;
+  if (source.minimum !== undefined) result.minimum = source.minimum;
+  if (source.maximum !== undefined) result.maximum = source.maximum;
+  if (source.minItems !== undefined) result.minItems = source.minItems;
+  if (source.maxItems !== undefined) result.maxItems = source.maxItems;
+  if (source.items) {
+    result.items = toGeminiSchema(source.items, [...path, 'items'], warn);
+  } else if (geminiType === 'ARRAY') {
+    warn(path, 'Arrays need an item type; items sent as JSON strings');
+    result.items = { type: 'STRING' };
+  }
+  if (source.properties) {
+    result.properties = Object.fromEntries(
+      Object.entries(source.properties).map(([key, value]) => [key, toGeminiSchema(value, [...path, key], warn)])
+    );
+    result.required = source.required ?? [];
+  }
+  return result;
+}
+
+/**
+ * Downgrade JSON Schema for OpenAI-compatible local servers (Ollama,
+ * llama.cpp). Their tool parsers only read type, description, enum,
+ * items, properties and required, so everything else is dropped, with
+ * defaults and bounds moved into the description. anyOf becomes a list
+ * of types when the options are plain types.
+ */
+export function toLocalSchema(schema: JsonSchema, path: string[], warn: Warn): JsonSchema {
+  const result: JsonSchema = {};
+  let description = schema.description;
+
+  if (schema.anyOf) {
+    const plain = schema.anyOf.every(o => typeof o.type === 'string' && !o.properties && !o.items && !o.enum);
+    if (plain) {
+      result.type = [...new Set(schema.anyOf.map(o => o.type as string))];
+    } else {
+      warn(path, 'anyOf is not supported; only the first option is kept');
+      return toLocalSchema({ ...schema.anyOf[0], description: description ?? schema.anyOf[0].description }, path, warn);
+    }
+  } else if (schema.type !== undefined) {
+    result.type = schema.type;
+  }
+
+  if (schema.default !== undefined) {
+    warn(path, 'Defaults are not supported; moved to the description');
+    description = withNote(description, `Defaults to ${JSON.stringify(schema.default)}.`);
+  }
+  const bounds = [
+    schema.minimum !== undefined && `minimum ${schema.minimum}`,
+    schema.maximum !== undefined && `maximum ${schema.maximum}`,
+    schema.minLength !== undefined && `at least ${schema.minLength} characters`,
+    schema.maxLength !== undefined && `at most ${schema.maxLength} characters`,
+    schema.minItems !== undefined && `at least ${schema.minItems} items`,
+    schema.maxItems !== undefined && `at most ${schema.maxItems} items`,
+    schema.pattern !== undefined && `matching ${schema.pattern}`
+  ].filter(Boolean);
+  if (bounds.length > 0) {
+    warn(path, 'Value constraints are not enforced; moved to the description');
+    description = withNote(description, `Must be ${bounds.join(', ')}.`);
+  }
+  if (schema.format !== undefined) {
+    warn(path, `Format ${schema.format} is not supported; moved to the description`);
+    description = withNote(description, `Format: ${schema.format}.`);
+  }
+  if (typeof schema.additionalProperties === 'object') {
+    warn(path, 'Free-form keys (additionalProperties) are not supported; only declared properties are sent');
+  }
+
+  if (description !== undefined) result.description = description;
+  if (schema.enum) result.enum = schema.enum;
+  if (schema.items) result.items = toLocalSchema(schema.items, [...path, 'items'], warn);
+  if (schema.properties) {
+    result.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, value]) => [key, toLocalSchema(value, [...path, key], warn)])
+    );
+    result.required = schema.required ?? [];
+  }
+  return result;
+}
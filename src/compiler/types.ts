@@ -1,39 +1,251 @@
+import { ModernTool, ToolMetadata } from '../index';
+import { FieldSchema, InferFields, JsonSchema, Schema } from '../schema';
+import { DescribeOptions } from './describe';
+import { ValidationResult } from '../validation';
+import { FrameSession } from '../frames';
+
 // Tool definition that works with our protocol
 export interface ToolDefinition {
   name: string;
   type: 'query' | 'mutation';  // Query tools can run in parallel, mutations must be sequential
   description: string;
-  input: Record<string, 'string' | 'number' | 'boolean'>;
-  output?: Record<string, any>;  // Can be more specific based on tool
-  execute: (input: any) => Promise<any>;
+  // Shorthand type names or schema nodes built with `s` from '../schema'
+  input: Record<string, FieldSchema>;
+  output?: Record<string, FieldSchema>;  // Declared result fields, checked outside production
+  // session is the caller's FrameSession, for tools that keep frame state
+  execute: (input: any, session?: FrameSession<any>) => Promise<any>;
   reason?: string;  // Model explains why it's using this tool
 }
 
+// ToolDefinition whose execute types follow its schemas, see defineTool
+export interface TypedToolDefinition<
+  I extends Record<string, FieldSchema>,
+  O extends Record<string, FieldSchema> | undefined = undefined
+> extends Omit<ToolDefinition, 'input' | 'output' | 'execute'> {
+  input: I;
+  output?: O;
+  execute: (
+    input: InferFields<I>,
+    session?: FrameSession<any>
+  ) => Promise<O extends Record<string, FieldSchema> ? InferFields<O> : any>;
+}
+
+// Anything the compilers accept: a ToolDefinition or a createTool result
+export type CompilableTool = ToolDefinition | (ModernTool & { metadata: ToolMetadata });
+
+export type CompileOptions = {
+  // Budget for the description folded from a ModernTool's documentation
+  description?: DescribeOptions;
+};
+
 // OpenAI's format
 export interface OpenAIFunction {
   name: string;
   description: string;
   parameters: {
     type: 'object';
-    properties: Record<string, {
-      type: string;
-      description?: string;
-    }>;
+    properties: Record<string, JsonSchema>;
     required: string[];
+    additionalProperties?: boolean;
+  };
+}
+
+// Entry for the Chat Completions `tools` array
+export interface OpenAITool {
+  type: 'function';
+  function: OpenAIFunction & {
+    // Structured outputs: arguments always match the schema exactly
+    strict?: boolean;
   };
 }
 
-// Anthropic's format
+export type OpenAICompileOptions = CompileOptions & {
+  // Emit a strict-mode schema: every property required, optional fields
+  // nullable, additionalProperties: false throughout
+  strict?: boolean;
+};
+
+// One entry of `message.tool_calls` in a chat completion
+export type OpenAIToolCall = {
+  id: string;
+  type: 'function';
+  function: {
+    name: string;
+    // JSON-encoded arguments
+    arguments: string;
+  };
+};
+
+export type OpenAIAssistantMessage = {
+  role: 'assistant';
+  content?: string | null;
+  tool_calls?: OpenAIToolCall[];
+};
+
+// The parts of a chat completion response the dispatcher reads
+export type OpenAIChatCompletion = {
+  choices: Array<{ message: OpenAIAssistantMessage }>;
+};
+
+// Reply message for a single tool call
+export type OpenAIToolMessage = {
+  role: 'tool';
+  tool_call_id: string;
+  content: string;
+};
+
+// Anthropic's format, as sent in the Messages API `tools` array
 export interface AnthropicFunction {
   name: string;
   description: string;
-  parameters: {
-    $schema: string;
+  input_schema: {
     type: 'object';
-    properties: Record<string, {
-      type: string;
-      description?: string;
-    }>;
+    properties: Record<string, JsonSchema>;
     required: string[];
   };
+  cache_control?: AnthropicCacheControl;
+}
+
+// Prompt caching breakpoint; mark the last tool to cache the whole list
+export type AnthropicCacheControl = {
+  type: 'ephemeral';
+  ttl?: '5m' | '1h';
+};
+
+export type AnthropicCompileOptions = CompileOptions & {
+  cacheControl?: AnthropicCacheControl;
+};
+
+// Content block the model sends to call a tool
+export type AnthropicToolUseBlock = {
+  type: 'tool_use';
+  id: string;
+  name: string;
+  input: unknown;
+};
+
+// Content block sent back in the next user message
+export type AnthropicToolResultBlock = {
+  type: 'tool_result';
+  tool_use_id: string;
+  content: string;
+  is_error?: boolean;
+};
+
+// Output of a target that may have to drop schema features. Every lossy
+// change is a LOSSY_CONVERSION warning in `validation`, under ['input', ...].
+export type TargetResult<T> = {
+  tool: T;
+  validation: ValidationResult;
+};
+
+// Gemini's OpenAPI 3.0 subset
+export type GeminiType = 'STRING' | 'NUMBER' | 'INTEGER' | 'BOOLEAN' | 'ARRAY' | 'OBJECT';
+
+export interface GeminiSchema {
+  type: GeminiType;
+  format?: string;
+  description?: string;
+  nullable?: boolean;
+  enum?: string[];
+  items?: GeminiSchema;
+  minItems?: number;
+  maxItems?: number;
+  minimum?: number;
+  maximum?: number;
+  properties?: Record<string, GeminiSchema>;
+  required?: string[];
 }
+
+// One entry of a Gemini tool's `functionDeclarations`
+export interface GeminiFunctionDeclaration {
+  name: string;
+  description: string;
+  // Omitted for tools without arguments
+  parameters?: GeminiSchema & { type: 'OBJECT' };
+}
+
+export type GeminiTool = {
+  functionDeclarations: GeminiFunctionDeclaration[];
+};
+
+// JSON Schema as found in existing definitions, including keywords we never emit
+export interface SourceJsonSchema extends Omit<JsonSchema, 'items' | 'properties' | 'additionalProperties' | 'anyOf'> {
+  title?: string;
+  const?: unknown;
+  // OpenAPI 3.0 spelling of ['type', 'null']
+  nullable?: boolean;
+  $ref?: string;
+  items?: SourceJsonSchema;
+  properties?: Record<string, SourceJsonSchema>;
+  additionalProperties?: boolean | SourceJsonSchema;
+  anyOf?: SourceJsonSchema[];
+  oneOf?: SourceJsonSchema[];
+  allOf?: SourceJsonSchema[];
+}
+
+// Importer inputs: the JSON of an existing definition
+export type OpenAIFunctionSource = {
+  name: string;
+  description?: string;
+  parameters?: SourceJsonSchema;
+};
+
+export type AnthropicToolSource = {
+  name: string;
+  description?: string;
+  input_schema: SourceJsonSchema;
+};
+
+export interface OpenAPIParameter {
+  name: string;
+  in: 'query' | 'path' | 'header' | 'cookie';
+  required?: boolean;
+  description?: string;
+  schema?: SourceJsonSchema;
+}
+
+export type OpenAPIContent = Record<string, { schema?: SourceJsonSchema }>;
+
+export interface OpenAPIOperation {
+  operationId?: string;
+  summary?: string;
+  description?: string;
+  parameters?: OpenAPIParameter[];
+  requestBody?: {
+    description?: string;
+    required?: boolean;
+    content?: OpenAPIContent;
+  };
+  // Keyed by status code ('200', '404', 'default', ...)
+  responses?: Record<string, { description?: string; content?: OpenAPIContent }>;
+}
+
+export type ImportOptions = {
+  version?: string;
+  category?: string;
+};
+
+export type OpenAPIImportOptions = ImportOptions & {
+  method: string;
+  // Path template, e.g. '/pets/{petId}'
+  path: string;
+};
+
+// A ModernTool without an implementation, ready to be filled in
+export type ImportedTool = ModernTool & {
+  metadata: ToolMetadata;
+  input: Record<string, Schema>;
+  output?: Schema;
+};
+
+// Something the importer couldn't fill in, at its path in the tool
+export type ImportTodo = {
+  path: string[];
+  message: string;
+};
+
+export type ImportResult = {
+  tool: ImportedTool;
+  todos: ImportTodo[];
+};
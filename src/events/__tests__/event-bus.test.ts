@@ -0,0 +1,163 @@
+import { createEventBus, HANDLER_ERROR_CODE, matchesPattern, UserEvent } from '../index';
+
+function makeBus() {
+  let time = 1000;
+  let id = 0;
+  return createEventBus({
+    now: () => time++,
+    generateId: () => `evt-${++id}`,
+    defaultSource: 'tool'
+  });
+}
+
+describe('EventBus', () => {
+  it('delivers typed events to exact subscribers', () => {
+    const bus = makeBus();
+    const handler = jest.fn();
+    bus.on('tool.progress', handler);
+
+    bus.emit('tool.progress', { toolId: 'render', progress: 40, message: 'Rendering' });
+
+    expect(handler).toHaveBeenCalledWith({
+      id: 'evt-1',
+      timestamp: 1000,
+      source: 'tool',
+      type: 'tool.progress',
+      payload: { toolId: 'render', progress: 40, message: 'Rendering' },
+      metadata: undefined
+    });
+  });
+
+  it('rejects wrong payloads at compile time', () => {
+    const bus = makeBus();
+    // @ts-expect-error progress must be a number
+    bus.emit('tool.progress', { toolId: 'render', progress: '40%' });
+    // @ts-expect-error unknown event type
+    bus.emit('tool.finished', { toolId: 'render' });
+    bus.on('tool.error', event => {
+      // Payload type comes from EventPayloadMap
+      const canRetry: boolean = event.payload.canRetry;
+      void canRetry;
+    });
+  });
+
+  it('supports wildcard subscriptions', () => {
+    const bus = makeBus();
+    const toolEvents: string[] = [];
+    const everything: string[] = [];
+    bus.on('tool.*', event => {
+      // Narrowing works on the wildcard union
+      if (event.type === 'tool.start') void event.payload.input;
+      toolEvents.push(event.type);
+    });
+    bus.on('*', event => everything.push(event.type));
+
+    bus.emit('tool.start', { toolId: 'a', input: {} });
+    bus.emit('tool.stream.chunk', { toolId: 'a', chunk: 1, index: 0 });
+    bus.emit('user.confirm', { requestId: 'r1' });
+
+    expect(toolEvents).toEqual(['tool.start', 'tool.stream.chunk']);
+    expect(everything).toEqual(['tool.start', 'tool.stream.chunk', 'user.confirm']);
+  });
+
+  it('runs once handlers a single time', () => {
+    const bus = makeBus();
+    const handler = jest.fn();
+    bus.once('system.ready', handler);
+
+    bus.emit('system.ready', {});
+    bus.emit('system.ready', {});
+
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops delivering after unsubscribe', () => {
+    const bus = makeBus();
+    const handler = jest.fn();
+    const unsubscribe = bus.on('tool.cancel', handler);
+
+    unsubscribe();
+    bus.emit('tool.cancel', { toolId: 'a' });
+
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('delivers events emitted from handlers after the current event', () => {
+    const bus = makeBus();
+    const log: string[] = [];
+    bus.on('tool.start', () => {
+      log.push('first:start');
+      bus.emit('tool.complete', { toolId: 'a', result: null, duration: 1 });
+    });
+    bus.on('tool.*', event => log.push(`second:${event.type}`));
+
+    bus.emit('tool.start', { toolId: 'a', input: {} });
+
+    expect(log).toEqual(['first:start', 'second:tool.start', 'second:tool.complete']);
+  });
+
+  it('keeps delivering when a handler throws', () => {
+    const onHandlerError = jest.fn();
+    const bus = createEventBus({ onHandlerError });
+    const after = jest.fn();
+    bus.on('system.error', () => {
+      throw new Error('bad handler');
+    });
+    bus.on('system.error', after);
+
+    bus.emit('system.error', { error: { code: 'X', message: 'x', retryable: false, userMessage: 'x' } });
+
+    expect(after).toHaveBeenCalled();
+    expect(onHandlerError).toHaveBeenCalledWith(expect.any(Error), expect.objectContaining<Partial<UserEvent>>({
+      type: 'system.error',
+      source: 'system'
+    }));
+  });
+
+  it('reports handler errors as system.error events by default', () => {
+    const bus = createEventBus();
+    const errors: string[] = [];
+    bus.on('tool.start', () => {
+      throw new Error('bad handler');
+    });
+    bus.on('system.error', event => errors.push(`${event.payload.error.code}: ${event.payload.error.message}`));
+
+    bus.emit('tool.start', { toolId: 'a', input: {} });
+
+    expect(errors).toEqual([`${HANDLER_ERROR_CODE}: A tool.start handler threw: bad handler`]);
+  });
+
+  it('does not report errors from handling its own reports', () => {
+    const bus = createEventBus();
+    const handler = jest.fn(() => {
+      throw new Error('bad handler');
+    });
+    bus.on('system.error', handler);
+
+    bus.emit('system.error', { error: { code: 'X', message: 'x', retryable: false, userMessage: 'x' } });
+
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  it('stamps source and metadata from emit options', () => {
+    const bus = makeBus();
+    const handler = jest.fn();
+    bus.on('user.input', handler);
+
+    bus.emit('user.input', { inputType: 'text', value: 'hi' }, { source: 'user', metadata: { sessionId: 's1' } });
+
+    expect(handler.mock.calls[0][0]).toEqual(expect.objectContaining({
+      source: 'user',
+      metadata: { sessionId: 's1' }
+    }));
+  });
+});
+
+describe('matchesPattern', () => {
+  it('matches prefixes only at segment boundaries', () => {
+    expect(matchesPattern('tool.*', 'tool.stream.chunk')).toBe(true);
+    expect(matchesPattern('tool.stream.*', 'tool.stream.chunk')).toBe(true);
+    expect(matchesPattern('tool.*', 'user.input')).toBe(false);
+    expect(matchesPattern('ui.*', 'user.input')).toBe(false);
+  });
+});
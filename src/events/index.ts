@@ -0,0 +1,129 @@
+import {
+  EmitOptions,
+  EventBus,
+  EventPattern,
+  EventPayloadMap,
+  EventSource,
+  UserEvent,
+  UserEventType
+} from './types';
+
+export * from './types';
+
+export const HANDLER_ERROR_CODE = 'EVENT_HANDLER_ERROR';
+
+export type EventBusOptions = {
+  // Source stamped on events emitted without one
+  defaultSource?: EventSource;
+  now?: () => number;
+  generateId?: () => string;
+  // Called when a handler throws; other handlers still run. By default
+  // the error is emitted as a system.error event (HANDLER_ERROR_CODE)
+  onHandlerError?: (error: unknown, event: UserEvent) => void;
+};
+
+type Subscription = {
+  pattern: EventPattern;
+  handler: (event: any) => void;
+};
+
+export function matchesPattern(pattern: EventPattern, type: UserEventType): boolean {
+  if (pattern === '*') return true;
+  if (pattern.endsWith('.*')) return type.startsWith(pattern.slice(0, -1));
+  return pattern === type;
+}
+
+/**
+ * Create a typed event bus.
+ *
+ * Ordering: handlers run synchronously in subscription order, and every
+ * handler sees events in emission order. Events emitted from inside a
+ * handler are queued until the current event reached all its handlers.
+ */
+export function createEventBus(options: EventBusOptions = {}): EventBus {
+  const now = options.now ?? (() => Date.now());
+  let counter = 0;
+  const generateId = options.generateId ?? (() => `${now().toString(36)}-${(counter++).toString(36)}`);
+  let subscriptions: Subscription[] = [];
+  const queue: UserEvent[] = [];
+  let dispatching = false;
+
+  const enqueue = <T extends UserEventType>(type: T, payload: EventPayloadMap[T], emitOptions: EmitOptions) => {
+    const event: UserEvent<T> = {
+      id: generateId(),
+      timestamp: now(),
+      source: emitOptions.source ?? options.defaultSource ?? 'system',
+      type,
+      payload,
+      metadata: emitOptions.metadata
+    };
+    queue.push(event);
+    return event;
+  };
+
+  // Errors from handling our own reports are dropped, or a throwing
+  // system.error handler would report itself forever
+  const reports = new WeakSet<UserEvent>();
+  const reportHandlerError = (error: unknown, event: UserEvent) => {
+    if (reports.has(event)) return;
+    reports.add(enqueue('system.error', {
+      error: {
+        code: HANDLER_ERROR_CODE,
+        message: `A ${event.type} handler threw: ${error instanceof Error ? error.message : String(error)}`,
+        retryable: false,
+        userMessage: 'An unexpected error occurred',
+        details: error
+      }
+    }, { source: 'system', metadata: { eventId: event.id } }));
+  };
+  const onHandlerError = options.onHandlerError ?? reportHandlerError;
+
+  const dispatch = () => {
+    if (dispatching) return;
+    dispatching = true;
+    try {
+      for (let event = queue.shift(); event; event = queue.shift()) {
+        // Snapshot so (un)subscribing during dispatch affects the next event only
+        for (const { pattern, handler } of [...subscriptions]) {
+          if (!matchesPattern(pattern, event.type)) continue;
+          try {
+            handler(event);
+          } catch (e) {
+            onHandlerError(e, event);
+          }
+        }
+      }
+    } finally {
+      dispatching = false;
+    }
+  };
+
+  const subscribe = (subscription: Subscription) => {
+    subscriptions.push(subscription);
+    return () => {
+      subscriptions = subscriptions.filter(s => s !== subscription);
+    };
+  };
+
+  return {
+    emit(type, payload, emitOptions: EmitOptions = {}) {
+      enqueue(type, payload, emitOptions);
+      dispatch();
+    },
+
+    on(pattern, handler) {
+      return subscribe({ pattern, handler });
+    },
+
+    once(pattern, handler) {
+      const unsubscribe = subscribe({
+        pattern,
+        handler: event => {
+          unsubscribe();
+          handler(event);
+        }
+      });
+      return unsubscribe;
+    }
+  };
+}
@@ -0,0 +1,177 @@
+import { ToolError } from '../index';
+
+export type UserEventType =
+  // Tool Interaction Events
+  | 'tool.start'
+  | 'tool.complete'
+  | 'tool.error'
+  | 'tool.cancel'
+  | 'tool.progress'
+  | 'tool.stream.chunk'
+
+  // User Interaction Events
+  | 'user.input'
+  | 'user.confirm'
+  | 'user.reject'
+  | 'user.cancel'
+  | 'user.preference.update'
+
+  // UI Events
+  | 'ui.view.change'
+  | 'ui.modal.open'
+  | 'ui.modal.close'
+  | 'ui.notification.show'
+
+  // System Events
+  | 'system.ready'
+  | 'system.error'
+  | 'system.resource.low'
+  | 'system.update.available';
+
+export type EventSource = 'user' | 'system' | 'tool';
+
+export type UserEvent<T extends UserEventType = UserEventType> = {
+  id: string;
+  timestamp: number;
+  source: EventSource;
+  type: T;
+  payload: unknown;
+  metadata?: Record<string, unknown>;
+};
+
+// Type-safe event payloads
+export interface EventPayloadMap {
+  'tool.start': {
+    toolId: string;
+    input: unknown;
+    expectedDuration?: number;
+  };
+
+  'tool.complete': {
+    toolId: string;
+    result: unknown;
+    duration: number;
+    cost?: number;
+    // Streams: how many tool.stream.chunk events carried the data
+    chunks?: number;
+  };
+
+  'tool.error': {
+    toolId: string;
+    error: ToolError;
+    canRetry: boolean;
+    suggestedAction?: string;
+  };
+
+  'tool.cancel': {
+    toolId: string;
+    reason?: string;
+  };
+
+  'tool.progress': {
+    toolId: string;
+    progress: number;
+    message?: string;
+    eta?: number;
+  };
+
+  'tool.stream.chunk': {
+    toolId: string;
+    chunk: unknown;
+    index: number;
+  };
+
+  'user.input': {
+    inputType: 'text' | 'file' | 'selection';
+    value: unknown;
+    context?: string;
+  };
+
+  'user.confirm': {
+    requestId: string;
+  };
+
+  'user.reject': {
+    requestId: string;
+    reason?: string;
+  };
+
+  'user.cancel': {
+    requestId?: string;
+  };
+
+  'user.preference.update': {
+    key: string;
+    value: unknown;
+    scope: 'global' | 'tool' | 'session';
+  };
+
+  'ui.view.change': {
+    from?: string;
+    to: string;
+  };
+
+  'ui.modal.open': {
+    modalId: string;
+  };
+
+  'ui.modal.close': {
+    modalId: string;
+  };
+
+  'ui.notification.show': {
+    level: 'info' | 'warning' | 'error';
+    message: string;
+  };
+
+  'system.ready': Record<string, never>;
+
+  'system.error': {
+    error: ToolError;
+  };
+
+  'system.resource.low': {
+    resource: string;
+    available: number;
+    unit?: string;
+  };
+
+  'system.update.available': {
+    version: string;
+  };
+}
+
+// 'tool.*' matches every type under 'tool.', '*' matches everything
+export type EventPattern = UserEventType | `${string}.*` | '*';
+
+export type MatchingEventType<P extends EventPattern> =
+  P extends '*'
+    ? UserEventType
+    : P extends `${infer Prefix}.*`
+      ? Extract<UserEventType, `${Prefix}.${string}`>
+      : Extract<P, UserEventType>;
+
+// Distributes over unions so wildcard handlers get a discriminated union
+export type TypedUserEvent<T extends UserEventType> = T extends UserEventType
+  ? UserEvent<T> & { payload: EventPayloadMap[T] }
+  : never;
+
+export type EventHandler<P extends EventPattern> = (event: TypedUserEvent<MatchingEventType<P>>) => void;
+
+export type EmitOptions = {
+  source?: EventSource;
+  metadata?: Record<string, unknown>;
+};
+
+// Event Bus for type-safe pub/sub
+export interface EventBus {
+  emit<T extends UserEventType>(
+    type: T,
+    payload: EventPayloadMap[T],
+    options?: EmitOptions
+  ): void;
+
+  on<P extends EventPattern>(pattern: P, handler: EventHandler<P>): () => void;
+
+  once<P extends EventPattern>(pattern: P, handler: EventHandler<P>): () => void;
+}
@@ -0,0 +1,158 @@
+import { createTool, invokeTool, ToolResponse } from '../..';
+import { dispatchTool, formatToolResult } from '../../compiler';
+import { ToolDefinition } from '../../compiler/types';
+import { FRAME_ERROR_TYPES, FrameError, frameErrorCode, FrameSession, SequenceInvalidError } from '..';
+
+type Page = { url: string; content: string };
+
+const page = () => new FrameSession<Page>('a', { url: '/products', content: '<ul id="list"></ul>' }, {
+  render: state => state
+});
+
+describe('frameErrorCode', () => {
+  it('keeps frame error codes', () => {
+    expect(frameErrorCode(Object.assign(new Error('gone'), { code: 'element_not_found' }))).toBe('element_not_found');
+  });
+
+  it('maps connection failures to network_error', () => {
+    expect(frameErrorCode(Object.assign(new Error('refused'), { code: 'ECONNREFUSED' }))).toBe('network_error');
+    const fetchFailed = Object.assign(new TypeError('fetch failed'), { cause: { code: 'ETIMEDOUT' } });
+    expect(frameErrorCode(fetchFailed)).toBe('network_error');
+  });
+
+  it('leaves other errors alone', () => {
+    expect(frameErrorCode(new Error('bug'))).toBeUndefined();
+    expect(frameErrorCode({ code: 'RATE_LIMITED' })).toBeUndefined();
+    expect(frameErrorCode('oops')).toBeUndefined();
+  });
+
+  it('ignores codes that only match inherited properties', () => {
+    expect(frameErrorCode({ code: 'toString' })).toBeUndefined();
+    expect(frameErrorCode({ code: '__proto__' })).toBeUndefined();
+  });
+});
+
+describe('FrameError', () => {
+  it('takes its retryable flag and user message from FRAME_ERROR_TYPES', () => {
+    const error = page().fail('network_error', 'Timed out');
+
+    expect(error).toMatchObject({
+      code: 'network_error',
+      message: 'Timed out',
+      retryable: true,
+      userMessage: FRAME_ERROR_TYPES.network_error.suggestedUserMessage
+    });
+    expect(page().fail('element_not_found', 'Missing').retryable).toBe(false);
+  });
+
+  it('carries an error frame of the current state', () => {
+    const session = page();
+    session.commit(1, { url: '/products', content: '<ul id="list"><li>eggs</li></ul>' });
+
+    const error = session.fail('element_not_found', 'Could not find element #buy-button');
+    expect(error.details).toEqual({
+      frame: {
+        sequence: 2,
+        url: '/products',
+        changes: {
+          type: 'error',
+          content: '<ul id="list"><li>eggs</li></ul>',
+          error: { code: 'element_not_found', message: 'Could not find element #buy-button' }
+        }
+      }
+    });
+    expect(session.sequence).toBe(2);
+  });
+
+  it('is the base of SequenceInvalidError', () => {
+    const error = (() => {
+      try {
+        page().check(3);
+      } catch (e) {
+        return e;
+      }
+    })();
+
+    expect(error).toBeInstanceOf(FrameError);
+    expect(error).toBeInstanceOf(SequenceInvalidError);
+    expect(error).toMatchObject({ code: 'sequence_invalid', details: { basedOnSequence: 3 } });
+  });
+});
+
+describe('FrameSession.toFrameError', () => {
+  it('wraps errors that map to a frame code', () => {
+    const error = page().toFrameError(Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' }));
+
+    expect(error).toBeInstanceOf(FrameError);
+    expect(error?.frame.changes).toMatchObject({
+      type: 'error',
+      content: '<ul id="list"></ul>',
+      error: { code: 'network_error', message: 'socket hang up' }
+    });
+  });
+
+  it('passes FrameErrors through and ignores the rest', () => {
+    const session = page();
+    const failed = session.fail('element_not_found', 'Missing');
+
+    expect(session.toFrameError(failed)).toBe(failed);
+    expect(session.toFrameError(new Error('bug'))).toBeUndefined();
+  });
+});
+
+describe('error frames from tool execution', () => {
+  it('dispatchTool returns an error frame for a ToolDefinition', async () => {
+    const tool: ToolDefinition = {
+      name: 'click',
+      type: 'mutation',
+      description: 'Click an element',
+      input: { selector: 'string' },
+      execute: async () => {
+        throw Object.assign(new Error('connect ECONNREFUSED'), { code: 'ECONNREFUSED' });
+      }
+    };
+
+    const response = await dispatchTool([tool], 'click', { selector: '#buy' }, { session: page() });
+    expect(response.error).toMatchObject({
+      code: 'network_error',
+      retryable: true,
+      details: { frame: { sequence: 1, changes: { type: 'error', error: { code: 'network_error' } } } }
+    });
+    expect(JSON.parse(formatToolResult(response)).error.details.frame.changes.content).toBe('<ul id="list"></ul>');
+
+    const without = await dispatchTool([tool], 'click', { selector: '#buy' });
+    expect(without.error).toMatchObject({ code: 'ECONNREFUSED' });
+  });
+
+  it('invokeTool retries network_error when FRAME_ERROR_TYPES are declared', async () => {
+    let calls = 0;
+    const tool = createTool<{ selector: string }, string>({
+      version: '1.0.0',
+      metadata: { id: 'click', name: 'Click' },
+      documentation: { description: 'Click an element', examples: [], limitations: [] },
+      errors: {
+        possibleErrors: Object.values(FRAME_ERROR_TYPES),
+        retryStrategies: [{ type: 'fixed-interval', maxAttempts: 3, initialDelay: 0 }]
+      },
+      execution: { canBeCancelled: false, supportsProgress: false },
+      state: { persistsBetweenCalls: true },
+      async execute({ selector }, { session }): Promise<ToolResponse<string>> {
+        calls++;
+        if (calls === 1) {
+          throw Object.assign(new Error('timed out'), { code: 'ETIMEDOUT' });
+        }
+        throw session!.fail('element_not_found', `Could not find element ${selector}`);
+      }
+    });
+
+    const { response, attempts } = await invokeTool(tool, { selector: '#buy' }, { session: page() });
+    expect(attempts.map(a => [a.response.error?.code, a.retryable])).toEqual([
+      ['network_error', true],
+      ['element_not_found', false]
+    ]);
+    expect(response.error).toMatchObject({
+      userMessage: FRAME_ERROR_TYPES.element_not_found.suggestedUserMessage,
+      details: { frame: { url: '/products', changes: { type: 'error' } } }
+    });
+  });
+});
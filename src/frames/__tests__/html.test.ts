@@ -0,0 +1,47 @@
+import { diffHtml, replaceElement } from '../html';
+
+describe('replaceElement', () => {
+  const page = '<main><div id="menu-1" class="menu"><div>Closed</div></div><img class="logo"><p class="note open">Hi</p></main>';
+
+  it('replaces the whole element, including nested tags of the same name', () => {
+    expect(replaceElement(page, '#menu-1', '<div id="menu-1">Open</div>')).toBe(
+      '<main><div id="menu-1">Open</div><img class="logo"><p class="note open">Hi</p></main>'
+    );
+  });
+
+  it('matches tags, classes and void elements', () => {
+    expect(replaceElement(page, 'img.logo', '<img class="logo" alt="x">')).toContain('<img class="logo" alt="x"><p');
+    expect(replaceElement(page, 'p.note.open', '')).toBe(
+      '<main><div id="menu-1" class="menu"><div>Closed</div></div><img class="logo"></main>'
+    );
+  });
+
+  it('returns undefined when nothing matches or the selector is unsupported', () => {
+    expect(replaceElement(page, '#missing', 'x')).toBeUndefined();
+    expect(replaceElement(page, 'main > p', 'x')).toBeUndefined();
+    expect(replaceElement('<div id="a">unclosed', '#a', 'x')).toBeUndefined();
+  });
+});
+
+describe('diffHtml', () => {
+  const before = '<main><ul id="cart"><li>eggs</li></ul><p class="total">$3</p></main>';
+
+  it('keys the change by the innermost element containing it', () => {
+    const after = '<main><ul id="cart"><li>eggs</li><li>milk</li></ul><p class="total">$3</p></main>';
+    const diff = diffHtml(before, after);
+    expect(diff).toEqual({ selector: '#cart', content: '<ul id="cart"><li>eggs</li><li>milk</li></ul>' });
+    expect(replaceElement(before, diff!.selector, diff!.content)).toBe(after);
+  });
+
+  it('falls back to classes and tags when there is no id', () => {
+    expect(diffHtml(before, before.replace('$3', '$5'))).toEqual({ selector: 'p.total', content: '<p class="total">$5</p>' });
+    expect(diffHtml('<div><b>a</b><b>b</b></div>', '<div><b>a</b><b>c</b></div>')).toEqual({
+      selector: 'div',
+      content: '<div><b>a</b><b>c</b></div>'
+    });
+  });
+
+  it('returns undefined when no element contains the change', () => {
+    expect(diffHtml('<p>a</p><p>b</p>', '<p>a</p><p>c</p>')).toBeUndefined();
+  });
+});
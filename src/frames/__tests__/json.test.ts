@@ -0,0 +1,62 @@
+import { applyJsonPatch, diffJson, parsePointer, toPointer } from '../json';
+
+describe('JSON patches', () => {
+  const before = { cart: { items: [{ id: 'eggs', qty: 1 }], total: 3 }, 'a/b': 1 };
+
+  it('diffs member by member', () => {
+    const after = { cart: { items: [{ id: 'eggs', qty: 2 }, { id: 'milk', qty: 1 }], total: 5 } };
+    const patch = diffJson(before, after);
+    expect(patch).toEqual([
+      { op: 'replace', path: '/cart/items/0/qty', value: 2 },
+      { op: 'add', path: '/cart/items/1', value: { id: 'milk', qty: 1 } },
+      { op: 'replace', path: '/cart/total', value: 5 },
+      { op: 'remove', path: '/a~1b' }
+    ]);
+    expect(applyJsonPatch(before, patch)).toEqual(after);
+    expect(diffJson(before, before)).toEqual([]);
+  });
+
+  it('removes array items from the end', () => {
+    const patch = diffJson([1, 2, 3], [1]);
+    expect(patch).toEqual([{ op: 'remove', path: '/2' }, { op: 'remove', path: '/1' }]);
+    expect(applyJsonPatch([1, 2, 3], patch)).toEqual([1]);
+  });
+
+  it('applies every RFC 6902 operation without touching the input', () => {
+    const document = { a: [1, 2], b: { c: 'x' } };
+    const result = applyJsonPatch(document, [
+      { op: 'test', path: '/b/c', value: 'x' },
+      { op: 'add', path: '/a/-', value: 3 },
+      { op: 'move', from: '/b/c', path: '/d' },
+      { op: 'copy', from: '/a', path: '/e' },
+      { op: 'replace', path: '/a/0', value: 0 }
+    ]);
+    expect(result).toEqual({ a: [0, 2, 3], b: {}, d: 'x', e: [1, 2, 3] });
+    expect(document).toEqual({ a: [1, 2], b: { c: 'x' } });
+  });
+
+  it('throws on missing paths and failed tests', () => {
+    expect(() => applyJsonPatch({}, [{ op: 'remove', path: '/missing' }])).toThrow('Nothing at /missing');
+    expect(() => applyJsonPatch({ a: 1 }, [{ op: 'test', path: '/a', value: 2 }])).toThrow('Test failed at /a');
+    expect(() => applyJsonPatch([], [{ op: 'replace', path: '/0', value: 1 }])).toThrow('Nothing at /0');
+  });
+
+  it('compares own properties only', () => {
+    expect(diffJson({ constructor: 1, a: 1 }, { a: 1 })).toEqual([{ op: 'remove', path: '/constructor' }]);
+    expect(diffJson({ a: 1 }, { a: 1, toString: 2 })).toEqual([{ op: 'add', path: '/toString', value: 2 }]);
+    expect(() => applyJsonPatch({}, [{ op: 'remove', path: '/toString' }])).toThrow('Nothing at /toString');
+  });
+
+  it('refuses to patch through the prototype', () => {
+    for (const path of ['/__proto__/polluted', '/constructor/prototype/polluted', '/a/__proto__']) {
+      expect(() => applyJsonPatch({ a: {} }, [{ op: 'add', path, value: 'yes' }])).toThrow(`Unsafe JSON pointer: ${path}`);
+    }
+    expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+  });
+
+  it('escapes pointer segments', () => {
+    expect(toPointer(['a/b', 'c~d'])).toBe('/a~1b/c~0d');
+    expect(parsePointer('/a~1b/c~0d')).toEqual(['a/b', 'c~d']);
+    expect(parsePointer('')).toEqual([]);
+  });
+});
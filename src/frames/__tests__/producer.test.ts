@@ -0,0 +1,106 @@
+import { FrameState, FrameStore, produceFrame } from '..';
+
+const footer = `<footer>${'Terms, privacy, careers and the rest of the footer. '.repeat(4)}</footer>`;
+const page = `<main><nav id="menu">closed</nav><section id="reviews">Reviews that stay put</section>${footer}</main>`;
+const previous: FrameState = { sequence: 1, url: '/products', content: page, baseFrame: 1 };
+
+describe('produceFrame', () => {
+  it('emits an HTML diff keyed by selector', () => {
+    const next = page.replace('closed', 'open');
+    expect(produceFrame(previous, { sequence: 2, url: '/products', content: next })).toEqual({
+      sequence: 2,
+      url: '/products',
+      changes: { type: 'diff', selector: '#menu', content: '<nav id="menu">open</nav>', baseFrame: 1 }
+    });
+  });
+
+  it('emits a JSON patch keyed by the common pointer', () => {
+    const state = { cart: { items: ['eggs'], total: 3 }, user: 'sam', catalog: Array.from({ length: 20 }, (_, i) => `item-${i}`) };
+    const before: FrameState = { sequence: 4, url: '/api/cart', content: JSON.stringify(state), format: 'json', baseFrame: 3 };
+    const after = { ...state, cart: { items: ['eggs', 'milk'], total: 5 } };
+
+    const frame = produceFrame(before, { sequence: 5, url: '/api/cart', content: JSON.stringify(after), format: 'json' });
+    expect(frame.changes).toEqual({
+      type: 'diff',
+      format: 'json',
+      selector: '/cart',
+      content: JSON.stringify([
+        { op: 'add', path: '/cart/items/1', value: 'milk' },
+        { op: 'replace', path: '/cart/total', value: 5 }
+      ]),
+      baseFrame: 3
+    });
+  });
+
+  it('emits an empty patch for unchanged JSON', () => {
+    const content = JSON.stringify({ n: 1 });
+    const before: FrameState = { sequence: 1, url: '/api', content, format: 'json', baseFrame: 1 };
+
+    expect(produceFrame(before, { sequence: 2, url: '/api', content, format: 'json' }).changes).toEqual({
+      type: 'diff',
+      format: 'json',
+      selector: '',
+      content: '[]',
+      baseFrame: 1
+    });
+  });
+
+  it('sends a full page when a patch would touch prototype keys', () => {
+    const before: FrameState = { sequence: 1, url: '/api', content: '{"constructor":1,"a":1}', format: 'json', baseFrame: 1 };
+    const next = { sequence: 2, url: '/api', content: '{"a":1}', format: 'json' as const };
+
+    expect(produceFrame(before, next, { diffThreshold: 1 }).changes).toEqual({ type: 'full_page', format: 'json', content: '{"a":1}' });
+  });
+
+  it('sends a full page for new pages and error states', () => {
+    const next = { sequence: 2, url: '/cart', content: '<main>cart</main>' };
+    expect(produceFrame(undefined, next).changes).toEqual({ type: 'full_page', content: '<main>cart</main>' });
+    expect(produceFrame(previous, next).changes.type).toBe('full_page');
+    expect(produceFrame({ ...previous, baseFrame: undefined }, { ...next, url: '/products' }).changes.type).toBe('full_page');
+  });
+
+  it('sends a full page when the diff is over the threshold', () => {
+    const next = page.replace('stay put', 'changed');
+    expect(produceFrame(previous, { sequence: 2, url: '/products', content: next }).changes.type).toBe('diff');
+    expect(produceFrame(previous, { sequence: 2, url: '/products', content: next }, { diffThreshold: 0.1 }).changes).toEqual({
+      type: 'full_page',
+      content: next
+    });
+  });
+});
+
+describe('FrameStore.record', () => {
+  it('stores the cheapest frame and reconstructs every state', () => {
+    const store = new FrameStore();
+    const states = [
+      page,
+      page.replace('closed', 'open'),
+      page.replace('closed', 'open').replace('stay put', 'grew'),
+      page
+    ];
+    states.forEach((content, i) => store.record({ sequence: i + 1, url: '/products', content }));
+
+    // The last change spans both elements, so only <main> contains it
+    expect(store.frames().map(f => f.changes.type)).toEqual(['full_page', 'diff', 'diff', 'full_page']);
+    states.forEach((content, i) => expect(store.stateAt(i + 1)?.content).toBe(content));
+  });
+
+  it('round-trips JSON state', () => {
+    const store = new FrameStore();
+    const log = Array.from({ length: 20 }, (_, i) => `step ${i}`);
+    const states = [{ value: 0, log }, { value: 5, log: [...log, 'increment'] }];
+    states.forEach((state, i) => store.record({ sequence: i + 1, url: '/counter', content: JSON.stringify(state), format: 'json' }));
+
+    expect(store.latest()?.changes.type).toBe('diff');
+    expect(JSON.parse(store.stateAt(2)!.content)).toEqual(states[1]);
+  });
+
+  it('records the same JSON state twice', () => {
+    const store = new FrameStore();
+    const content = JSON.stringify({ n: 1 });
+    store.record({ sequence: 1, url: '/api', content, format: 'json' });
+    store.record({ sequence: 2, url: '/api', content, format: 'json' });
+
+    expect(store.stateAt(2)?.content).toBe(content);
+  });
+});
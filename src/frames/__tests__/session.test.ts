@@ -0,0 +1,214 @@
+import { createTool, invokeTool } from '../..';
+import { defineTool, dispatchTool } from '../../compiler';
+import { FrameSession, SequenceInvalidError } from '..';
+
+type Cart = { items: string[] };
+
+describe('FrameSession', () => {
+  it('starts with a full_page frame of the initial state', () => {
+    const session = new FrameSession<Cart>('a', { items: [] });
+    expect(session.sequence).toBe(1);
+    expect(session.store.frames()).toEqual([
+      { sequence: 1, url: '/', changes: { type: 'full_page', format: 'json', content: '{"items":[]}' } }
+    ]);
+    expect(session.snapshot()).toEqual(session.store.latest());
+  });
+
+  it('commits mutations as diff frames where possible', () => {
+    const catalog = Array.from({ length: 20 }, (_, i) => `item-${i}`);
+    const session = new FrameSession('a', { items: [] as string[], catalog });
+
+    const frame = session.commit(1, { items: ['eggs'], catalog });
+    expect(frame).toEqual({
+      sequence: 2,
+      url: '/',
+      changes: {
+        type: 'diff',
+        format: 'json',
+        selector: '/items/0',
+        content: '[{"op":"add","path":"/items/0","value":"eggs"}]',
+        baseFrame: 1
+      }
+    });
+    expect(session.state.items).toEqual(['eggs']);
+    expect(JSON.parse(session.store.stateAt(2)!.content).items).toEqual(['eggs']);
+  });
+
+  it('commits an unchanged state', () => {
+    const session = new FrameSession('a', { n: 1 });
+    session.commit(1, { n: 1 });
+
+    expect(session.sequence).toBe(2);
+    expect(session.store.stateAt(2)?.content).toBe('{"n":1}');
+  });
+
+  it('stays put when the frame cannot be recorded', () => {
+    const session = new FrameSession<Cart>('a', { items: [] }, { applyDiff: () => undefined });
+    const catalog = Array.from({ length: 20 }, (_, i) => `item-${i}`);
+    session.commit(1, { items: catalog });
+
+    expect(() => session.commit(2, { items: [...catalog, 'eggs'] })).toThrow('does not apply');
+    expect(session.sequence).toBe(2);
+    expect(session.state.items).toEqual(catalog);
+    session.check(2);
+  });
+
+  it('rejects a second mutation based on the same sequence', () => {
+    const session = new FrameSession<Cart>('a', { items: [] });
+    session.commit(1, { items: ['eggs'] });
+
+    expect(() => session.commit(1, { items: ['milk'] })).toThrow(SequenceInvalidError);
+    expect(session.state.items).toEqual(['eggs']);
+    expect(session.sequence).toBe(2);
+  });
+
+  it('reports the current state in the error frame', () => {
+    const session = new FrameSession<Cart>('a', { items: ['eggs'] }, {
+      render: ({ items }) => ({ url: '/cart', content: `<ul>${items.map(i => `<li>${i}</li>`).join('')}</ul>` })
+    });
+
+    try {
+      session.check(7);
+      fail('expected check to throw');
+    } catch (e) {
+      expect(e).toMatchObject({
+        code: 'sequence_invalid',
+        retryable: false,
+        details: {
+          basedOnSequence: 7,
+          frame: {
+            sequence: 1,
+            url: '/cart',
+            changes: { type: 'error', content: '<ul><li>eggs</li></ul>', error: { code: 'sequence_invalid' } }
+          }
+        }
+      });
+    }
+  });
+
+  it('serializes to its id, sequence and state', () => {
+    const session = new FrameSession<Cart>('agent-7', { items: [] });
+    session.commit(1, { items: ['eggs'] });
+
+    const data = JSON.parse(JSON.stringify(session));
+    expect(data).toEqual({ id: 'agent-7', sequence: 2, state: { items: ['eggs'] } });
+
+    const restored = FrameSession.restore<Cart>(data);
+    expect(restored.store.frames().map(f => f.sequence)).toEqual([2]);
+    restored.commit(2, { items: ['eggs', 'milk'] });
+    expect(restored.sequence).toBe(3);
+  });
+});
+
+describe('FrameSession conflict policies', () => {
+  const add = (item: string) => (cart: Cart) => ({ items: [...cart.items, item] });
+
+  it('rejects stale mutations with the frames recorded since', () => {
+    const session = new FrameSession<Cart>('a', { items: [] });
+    session.commit(1, add('eggs'));
+    session.commit(2, add('milk'));
+
+    const error = (() => {
+      try {
+        session.commit(1, add('bread'));
+      } catch (e) {
+        return e as SequenceInvalidError;
+      }
+    })();
+    expect(error?.details).toMatchObject({
+      basedOnSequence: 1,
+      intervening: [{ sequence: 2 }, { sequence: 3 }]
+    });
+    expect(session.state.items).toEqual(['eggs', 'milk']);
+  });
+
+  it('rebases commutative updates over commutative commits', () => {
+    const session = new FrameSession<Cart>('a', { items: [] });
+    session.commit(1, add('eggs'), 'rebase-if-commutative');
+    session.commit(1, add('milk'), 'rebase-if-commutative');
+
+    expect(session.sequence).toBe(3);
+    expect(session.state.items).toEqual(['eggs', 'milk']);
+    expect(JSON.parse(session.store.stateAt(3)!.content).items).toEqual(['eggs', 'milk']);
+  });
+
+  it('does not rebase over non-commutative commits, values or compacted history', () => {
+    const session = new FrameSession<Cart>('a', { items: [] });
+    session.commit(1, { items: ['eggs'] });
+    expect(() => session.commit(1, add('milk'), 'rebase-if-commutative')).toThrow(SequenceInvalidError);
+
+    session.commit(2, add('milk'), 'rebase-if-commutative');
+    expect(() => session.commit(2, { items: [] }, 'rebase-if-commutative')).toThrow(SequenceInvalidError);
+
+    session.commit(3, add('tea'), 'rebase-if-commutative');
+    session.store.compact(4);
+    expect(() => session.commit(2, add('jam'), 'rebase-if-commutative')).toThrow(SequenceInvalidError);
+    expect(session.state.items).toEqual(['eggs', 'milk', 'tea']);
+  });
+
+  it('never rebases a sequence from the future', () => {
+    const session = new FrameSession<Cart>('a', { items: [] });
+    expect(() => session.commit(5, add('eggs'), 'rebase-if-commutative')).toThrow(SequenceInvalidError);
+  });
+
+  it('lets a merge function decide', () => {
+    const session = new FrameSession<Cart>('a', { items: [] });
+    session.commit(1, add('eggs'));
+
+    const merge = jest.fn((current: Cart, proposed: Cart) =>
+      proposed.items.includes('eggs') && current.items.length > 1 ? undefined : proposed
+    );
+    session.commit(1, add('milk'), merge);
+    expect(merge).toHaveBeenCalledWith(
+      { items: ['eggs'] },
+      { items: ['eggs', 'milk'] },
+      { basedOnSequence: 1, sequence: 2, intervening: [expect.objectContaining({ sequence: 2 })] }
+    );
+    expect(session.state.items).toEqual(['eggs', 'milk']);
+
+    expect(() => session.commit(1, add('tea'), merge)).toThrow(SequenceInvalidError);
+    expect(session.sequence).toBe(3);
+  });
+});
+
+describe('passing a session to execute', () => {
+  it('reaches ToolDefinitions through dispatchTool', async () => {
+    const tool = defineTool({
+      name: 'add_item',
+      type: 'mutation',
+      description: 'Add an item to the cart',
+      input: { item: 'string', basedOnSequence: 'number' },
+      async execute({ item, basedOnSequence }, session) {
+        const cart = session as FrameSession<Cart>;
+        return cart.commit(basedOnSequence, { items: [...cart.state.items, item] });
+      }
+    });
+    const session = new FrameSession<Cart>('a', { items: [] });
+
+    const ok = await dispatchTool([tool], 'add_item', { item: 'eggs', basedOnSequence: 1 }, { session });
+    expect(ok.status).toBe('success');
+
+    const stale = await dispatchTool([tool], 'add_item', { item: 'milk', basedOnSequence: 1 }, { session });
+    expect(stale.error).toMatchObject({ code: 'sequence_invalid', details: { frame: { sequence: 2 } } });
+  });
+
+  it('reaches ExecutableTools through the execution context', async () => {
+    const tool = createTool<{ basedOnSequence: number }, number>({
+      version: '1.0.0',
+      metadata: { id: 'count', name: 'Count' },
+      documentation: { description: 'Count items', examples: [], limitations: [] },
+      errors: { possibleErrors: [], retryStrategies: [] },
+      execution: { canBeCancelled: false, supportsProgress: false },
+      state: { persistsBetweenCalls: true },
+      async execute({ basedOnSequence }, { session }) {
+        const cart = session as FrameSession<Cart>;
+        cart.check(basedOnSequence);
+        return { status: 'success', data: cart.state.items.length };
+      }
+    });
+    const session = new FrameSession<Cart>('a', { items: ['eggs'] });
+
+    const { response } = await invokeTool(tool, { basedOnSequence: 1 }, { session });
+    expect(response.data).toBe(1);
+  });
+});
@@ -0,0 +1,147 @@
+import { Frame, FrameStore, INVALID_FRAME_CODE } from '..';
+
+const full = (sequence: number, url: string, content: string): Frame =>
+  ({ sequence, url, changes: { type: 'full_page', content } });
+
+const diff = (sequence: number, url: string, selector: string, content: string, baseFrame: number): Frame =>
+  ({ sequence, url, changes: { type: 'diff', selector, content, baseFrame } });
+
+// The extended example from FRAME_PROTOCOL.md, with real markup
+const productPage = '<main><nav id="menu-1">closed</nav><section id="reviews"></section></main>';
+const history: Frame[] = [
+  full(1, '/search', '<main>search</main>'),
+  full(2, '/products', productPage),
+  diff(3, '/products', '#menu-1', '<nav id="menu-1">open</nav>', 2),
+  diff(4, '/products', '#reviews', '<section id="reviews">5 stars</section>', 2),
+  full(5, '/cart', '<main>cart</main>')
+];
+
+function storeWith(frames: Frame[], store = new FrameStore()) {
+  frames.forEach(frame => store.append(frame));
+  return store;
+}
+
+describe('FrameStore', () => {
+  it('reconstructs the page at any sequence', () => {
+    const store = storeWith(history);
+
+    expect(store.stateAt(3)).toEqual({
+      sequence: 3,
+      url: '/products',
+      content: '<main><nav id="menu-1">open</nav><section id="reviews"></section></main>',
+      baseFrame: 2
+    });
+    expect(store.stateAt(4)?.content).toBe(
+      '<main><nav id="menu-1">open</nav><section id="reviews">5 stars</section></main>'
+    );
+    expect(store.stateAt(2)?.content).toBe(productPage);
+    expect(store.current()).toEqual({ sequence: 5, url: '/cart', content: '<main>cart</main>', baseFrame: 5 });
+    expect(store.stateAt(0)).toBeUndefined();
+  });
+
+  it('uses the latest frame at or before a sequence', () => {
+    const store = storeWith([full(1, '/a', '<p>a</p>'), full(4, '/b', '<p>b</p>')]);
+    expect(store.stateAt(3)?.sequence).toBe(1);
+    expect(store.stateAt(10)?.sequence).toBe(4);
+  });
+
+  it('keeps diffs on a URL based on its most recent full_page', () => {
+    const store = storeWith(history);
+    expect(store.baseFrameFor('/products')).toBe(2);
+
+    store.append(diff(6, '/products', '#menu-1', '<nav id="menu-1">closed again</nav>', 2));
+    expect(store.stateAt(6)?.content).toBe(
+      '<main><nav id="menu-1">closed again</nav><section id="reviews">5 stars</section></main>'
+    );
+
+    store.append(full(7, '/products', productPage));
+    expect(() => store.append(diff(8, '/products', '#menu-1', 'x', 2))).toThrow(
+      'Diff 8 must be based on frame 7, the most recent full_page for /products'
+    );
+  });
+
+  it('rejects frames that break the protocol', () => {
+    const store = storeWith(history.slice(0, 2));
+
+    expect(() => store.append(full(2, '/other', ''))).toThrow('Frame 2 does not follow frame 2');
+    expect(() => store.append(diff(3, '/unknown', '#x', '', 1))).toThrow(
+      'Diff 3 has no full_page frame for /unknown to build on'
+    );
+    expect(() => store.append(diff(3, '/products', '#missing', '', 2))).toThrow(
+      expect.objectContaining({ code: INVALID_FRAME_CODE, details: { sequence: 3 } })
+    );
+    const patch = diff(3, '/products', '/a', '[]', 2);
+    expect(() => store.append({ ...patch, changes: { ...patch.changes, format: 'json' } })).toThrow(
+      'Diff 3 is not html like frame 2'
+    );
+    expect(() => store.append({ sequence: 3, url: '/products', changes: { type: 'error', content: '' } })).toThrow(
+      'Error frame 3 has no error'
+    );
+    expect(store.frames()).toHaveLength(2);
+  });
+
+  it('reports error frames with the page state they carry', () => {
+    const store = storeWith([
+      ...history.slice(0, 3),
+      {
+        sequence: 4,
+        url: '/products',
+        changes: {
+          type: 'error',
+          content: '<main>current</main>',
+          error: { code: 'element_not_found', message: 'Could not find element #buy-button' }
+        }
+      }
+    ]);
+    expect(store.stateAt(4)).toEqual({ sequence: 4, url: '/products', content: '<main>current</main>' });
+
+    // The error doesn't change what later diffs build on
+    store.append(diff(5, '/products', '#reviews', '<section id="reviews">new</section>', 2));
+    expect(store.stateAt(5)?.content).toBe(
+      '<main><nav id="menu-1">open</nav><section id="reviews">new</section></main>'
+    );
+  });
+
+  it('accepts a custom diff applier', () => {
+    const store = new FrameStore({ applyDiff: (content, changes) => `${content}+${changes.content}` });
+    storeWith([full(1, '/log', 'a'), diff(2, '/log', 'body', 'b', 1), diff(3, '/log', 'body', 'c', 1)], store);
+    expect(store.stateAt(3)?.content).toBe('a+b+c');
+  });
+
+  describe('compaction', () => {
+    it('folds dropped diffs into the base later frames still need', () => {
+      const store = storeWith([
+        ...history.slice(0, 4),
+        diff(5, '/products', '#menu-1', '<nav id="menu-1">closed</nav>', 2)
+      ]);
+
+      expect(store.compact(4)).toBe(3);
+      expect(store.frames().map(f => f.sequence)).toEqual([4, 5]);
+      expect(store.stateAt(3)).toBeUndefined();
+      expect(store.stateAt(4)?.content).toBe(
+        '<main><nav id="menu-1">open</nav><section id="reviews">5 stars</section></main>'
+      );
+      expect(store.stateAt(5)?.content).toBe(
+        '<main><nav id="menu-1">closed</nav><section id="reviews">5 stars</section></main>'
+      );
+
+      // New diffs still build on the compacted base
+      store.append(diff(6, '/products', '#reviews', '<section id="reviews"></section>', 2));
+      expect(store.current()?.content).toBe(productPage);
+    });
+
+    it('always keeps the latest frame', () => {
+      const store = storeWith(history);
+      expect(store.compact(100)).toBe(4);
+      expect(store.current()?.content).toBe('<main>cart</main>');
+    });
+
+    it('runs automatically past maxFrames', () => {
+      const store = storeWith(history, new FrameStore({ maxFrames: 2 }));
+      expect(store.frames().map(f => f.sequence)).toEqual([4, 5]);
+      expect(store.stateAt(4)?.content).toBe(
+        '<main><nav id="menu-1">open</nav><section id="reviews">5 stars</section></main>'
+      );
+    });
+  });
+});
@@ -0,0 +1,99 @@
+import { ErrorType, ToolError } from '../index';
+import { Frame, FrameErrorCode } from '../types';
+
+export const SEQUENCE_INVALID_CODE = 'sequence_invalid';
+export const ELEMENT_NOT_FOUND_CODE = 'element_not_found';
+export const NETWORK_ERROR_CODE = 'network_error';
+
+// An error frame: the current state plus what went wrong
+export type ErrorFrame = Frame & {
+  changes: { type: 'error'; error: { code: FrameErrorCode; message: string } };
+};
+
+/**
+ * The frame error codes as ErrorType entries. Spread them into a
+ * tool's errors.possibleErrors so retries and user messages treat
+ * frame errors like any other declared error.
+ */
+export const FRAME_ERROR_TYPES: Record<FrameErrorCode, ErrorType> = {
+  sequence_invalid: {
+    code: SEQUENCE_INVALID_CODE,
+    description: 'The call was based on a sequence that is no longer current',
+    isRetryable: false,
+    suggestedUserMessage: 'The page changed before the action ran. Read it again and retry.'
+  },
+  element_not_found: {
+    code: ELEMENT_NOT_FOUND_CODE,
+    description: 'The element the action targets is not on the current page',
+    isRetryable: false,
+    suggestedUserMessage: 'The page no longer has what the action needed.'
+  },
+  network_error: {
+    code: NETWORK_ERROR_CODE,
+    description: 'The page could not be reached or did not respond',
+    isRetryable: true,
+    suggestedUserMessage: 'The page could not be reached. Try again shortly.'
+  }
+};
+
+// Thrown (as a ToolError) by tools under the frame protocol. `frame` is
+// the error frame, carrying the current state.
+export class FrameError extends Error implements ToolError {
+  readonly code: FrameErrorCode;
+  readonly retryable: boolean;
+  readonly userMessage: string;
+  readonly details: { frame: ErrorFrame; [key: string]: unknown };
+
+  constructor(readonly frame: ErrorFrame, details: Record<string, unknown> = {}) {
+    super(frame.changes.error.message);
+    this.name = 'FrameError';
+    this.code = frame.changes.error.code;
+    this.retryable = FRAME_ERROR_TYPES[this.code].isRetryable;
+    this.userMessage = FRAME_ERROR_TYPES[this.code].suggestedUserMessage;
+    this.details = { frame, ...details };
+  }
+}
+
+// A call based on a sequence that is no longer current. `intervening`
+// holds the frames recorded since basedOnSequence that are still stored.
+export class SequenceInvalidError extends FrameError {
+  constructor(frame: ErrorFrame, readonly basedOnSequence: number, readonly intervening: Frame[] = []) {
+    super(frame, { basedOnSequence, intervening });
+    this.name = 'SequenceInvalidError';
+  }
+}
+
+// Node and fetch error codes for an unreachable or unresponsive server
+const NETWORK_CODES = new Set([
+  'ECONNREFUSED',
+  'ECONNRESET',
+  'ENOTFOUND',
+  'ETIMEDOUT',
+  'EAI_AGAIN',
+  'EPIPE',
+  'UND_ERR_CONNECT_TIMEOUT',
+  'UND_ERR_SOCKET'
+]);
+
+function codeOf(error: unknown): string | undefined {
+  const code = (error as { code?: unknown })?.code;
+  return typeof code === 'string' ? code : undefined;
+}
+
+/**
+ * The frame error code for something a tool threw, if it has one:
+ * errors already using a frame code keep it, and connection failures
+ * (including fetch's TypeError, whose cause holds the code) become
+ * network_error. Anything else is left to the caller.
+ */
+export function frameErrorCode(error: unknown): FrameErrorCode | undefined {
+  const code = codeOf(error);
+  if (code && Object.prototype.hasOwnProperty.call(FRAME_ERROR_TYPES, code)) {
+    return code as FrameErrorCode;
+  }
+  if (code && NETWORK_CODES.has(code)) {
+    return NETWORK_ERROR_CODE;
+  }
+  const cause = codeOf((error as { cause?: unknown })?.cause);
+  return cause && NETWORK_CODES.has(cause) ? NETWORK_ERROR_CODE : undefined;
+}
@@ -0,0 +1,143 @@
+// Elements that never have a closing tag
+const VOID_ELEMENTS = new Set([
+  'area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr'
+]);
+
+type SimpleSelector = {
+  tag?: string;
+  id?: string;
+  classes: string[];
+};
+
+// tag, #id, .class and combinations such as button#buy.primary
+function parseSelector(selector: string): SimpleSelector | undefined {
+  const match = /^([a-zA-Z][\w-]*)?((?:[#.][\w-]+)*)$/.exec(selector.trim());
+  if (!match || (!match[1] && !match[2])) return undefined;
+
+  const parts = match[2].match(/[#.][\w-]+/g) ?? [];
+  return {
+    tag: match[1]?.toLowerCase(),
+    id: parts.find(p => p.startsWith('#'))?.slice(1),
+    classes: parts.filter(p => p.startsWith('.')).map(p => p.slice(1))
+  };
+}
+
+function attributes(source: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  for (const match of source.matchAll(/([\w:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+))/g)) {
+    attrs[match[1].toLowerCase()] = match[2] ?? match[3] ?? match[4];
+  }
+  return attrs;
+}
+
+function matches(selector: SimpleSelector, tag: string, attrs: Record<string, string>): boolean {
+  if (selector.tag && selector.tag !== tag) return false;
+  if (selector.id && attrs.id !== selector.id) return false;
+  const classes = (attrs.class ?? '').split(/\s+/);
+  return selector.classes.every(c => classes.includes(c));
+}
+
+// Index just past the element whose opening tag ends at `openEnd`, or undefined if it never closes
+function elementEnd(html: string, tag: string, openEnd: number, selfClosing: boolean): number | undefined {
+  if (selfClosing || VOID_ELEMENTS.has(tag)) return openEnd;
+
+  const pattern = new RegExp(`<(/?)${tag}(?=[\\s/>])[^>]*>`, 'gi');
+  pattern.lastIndex = openEnd;
+  let depth = 1;
+  for (let match = pattern.exec(html); match; match = pattern.exec(html)) {
+    if (match[1]) {
+      depth--;
+    } else if (!match[0].endsWith('/>')) {
+      depth++;
+    }
+    if (depth === 0) return match.index + match[0].length;
+  }
+  return undefined;
+}
+
+type Element = {
+  tag: string;
+  attrs: Record<string, string>;
+  start: number;
+  // Undefined when the element is never closed
+  end?: number;
+};
+
+function* elements(html: string): Generator<Element> {
+  for (const match of html.matchAll(/<([a-zA-Z][\w-]*)(\s[^>]*)?>/g)) {
+    const tag = match[1].toLowerCase();
+    const start = match.index ?? 0;
+    yield {
+      tag,
+      attrs: attributes(match[2] ?? ''),
+      start,
+      end: elementEnd(html, tag, start + match[0].length, match[0].endsWith('/>'))
+    };
+  }
+}
+
+// The first element matching a simple selector
+function findElement(html: string, selector: string): Element | undefined {
+  const target = parseSelector(selector);
+  if (!target) return undefined;
+
+  for (const element of elements(html)) {
+    if (matches(target, element.tag, element.attrs)) return element;
+  }
+  return undefined;
+}
+
+/**
+ * Replace the first element matching a simple selector (tag, #id,
+ * .class or a combination) with `content`. Returns undefined when the
+ * selector is unsupported or nothing matches. This is a string-level
+ * stand-in for a DOM; pass FrameStoreOptions.applyDiff to use a real one.
+ */
+export function replaceElement(html: string, selector: string, content: string): string | undefined {
+  const element = findElement(html, selector);
+  if (element?.end === undefined) return undefined;
+  return html.slice(0, element.start) + content + html.slice(element.end);
+}
+
+// A selector replaceElement resolves to `element`, preferring ids
+function selectorFor(html: string, element: Element): string | undefined {
+  const classes = (element.attrs.class ?? '').split(/\s+/).filter(Boolean);
+  const candidates = [
+    element.attrs.id && `#${element.attrs.id}`,
+    element.attrs.id && `${element.tag}#${element.attrs.id}`,
+    classes.length && `${element.tag}.${classes.join('.')}`,
+    element.tag
+  ];
+  return candidates.find((selector): selector is string =>
+    typeof selector === 'string' && parseSelector(selector) !== undefined && findElement(html, selector)?.start === element.start
+  );
+}
+
+/**
+ * Express the change from `previous` to `next` as one element
+ * replacement: the innermost element of `previous` that contains every
+ * changed character and has a selector that finds it. Undefined when no
+ * such element exists, e.g. when the change spans the root.
+ */
+export function diffHtml(previous: string, next: string): { selector: string; content: string } | undefined {
+  const limit = Math.min(previous.length, next.length);
+  let prefix = 0;
+  while (prefix < limit && previous[prefix] === next[prefix]) prefix++;
+  let suffix = 0;
+  while (suffix < limit - prefix && previous[previous.length - 1 - suffix] === next[next.length - 1 - suffix]) suffix++;
+  const changedEnd = previous.length - suffix;
+
+  const closed = [...elements(previous)].filter((e): e is Element & { end: number } => e.end !== undefined);
+  const candidates = previous === next
+    // Nothing changed: the smallest element makes the cheapest no-op
+    ? closed.sort((a, b) => (a.end - a.start) - (b.end - b.start))
+    : closed.filter(e => e.start <= prefix && e.end >= changedEnd).sort((a, b) => b.start - a.start);
+
+  for (const element of candidates) {
+    const selector = selectorFor(previous, element);
+    if (selector) {
+      return { selector, content: next.slice(element.start, next.length - (previous.length - element.end)) };
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,33 @@
+export type { Frame, FrameChanges, FrameErrorCode, FrameFormat, FrameType } from '../types';
+export * from './types';
+export {
+  FrameStore,
+  InvalidFrameError,
+  INVALID_FRAME_CODE,
+  applyFrameDiff,
+  applyHtmlDiff,
+  applyJsonDiff
+} from './store';
+export { FrameSession, requireSession } from './session';
+export type {
+  Conflict,
+  ConflictPolicy,
+  FrameRenderer,
+  FrameSessionOptions,
+  MergeFunction,
+  SerializedFrameSession,
+  StateUpdate
+} from './session';
+export {
+  FrameError,
+  SequenceInvalidError,
+  FRAME_ERROR_TYPES,
+  SEQUENCE_INVALID_CODE,
+  ELEMENT_NOT_FOUND_CODE,
+  NETWORK_ERROR_CODE,
+  frameErrorCode
+} from './errors';
+export type { ErrorFrame } from './errors';
+export { DEFAULT_DIFF_THRESHOLD, produceFrame } from './producer';
+export { diffHtml, replaceElement } from './html';
+export { applyJsonPatch, diffJson, parsePointer, toPointer } from './json';
@@ -0,0 +1,187 @@
+import { JsonPatchOperation } from './types';
+
+type Container = Record<string, unknown> | unknown[];
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// `in` would also find inherited keys such as `constructor`
+function has(value: object, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(value, key);
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((v, i) => isEqual(v, b[i]));
+  }
+  if (isObject(a) && isObject(b)) {
+    const keys = Object.keys(a);
+    return keys.length === Object.keys(b).length && keys.every(k => has(b, k) && isEqual(a[k], b[k]));
+  }
+  return false;
+}
+
+const escape = (segment: string) => segment.replace(/~/g, '~0').replace(/\//g, '~1');
+const unescape = (segment: string) => segment.replace(/~1/g, '/').replace(/~0/g, '~');
+
+export function toPointer(segments: string[]): string {
+  return segments.map(s => `/${escape(s)}`).join('');
+}
+
+// Keys that would reach Object.prototype when patched
+const UNSAFE_SEGMENTS = new Set(['__proto__', 'constructor', 'prototype']);
+
+// False for pointers applyJsonPatch refuses to follow
+export function isSafePointer(pointer: string): boolean {
+  return parsePointer(pointer).every(segment => !UNSAFE_SEGMENTS.has(segment));
+}
+
+export function parsePointer(pointer: string): string[] {
+  if (pointer === '') return [];
+  if (!pointer.startsWith('/')) throw new Error(`Invalid JSON pointer: ${pointer}`);
+  return pointer.slice(1).split('/').map(unescape);
+}
+
+/**
+ * RFC 6902 operations turning `previous` into `next`. Objects and
+ * arrays are compared member by member; arrays grow and shrink at the
+ * end, so an insertion near the front shows up as replacements.
+ */
+export function diffJson(previous: unknown, next: unknown, path: string[] = []): JsonPatchOperation[] {
+  if (isEqual(previous, next)) return [];
+
+  if (Array.isArray(previous) && Array.isArray(next)) {
+    const ops: JsonPatchOperation[] = [];
+    const shared = Math.min(previous.length, next.length);
+    for (let i = 0; i < shared; i++) {
+      ops.push(...diffJson(previous[i], next[i], [...path, i.toString()]));
+    }
+    for (let i = shared; i < next.length; i++) {
+      ops.push({ op: 'add', path: toPointer([...path, i.toString()]), value: next[i] });
+    }
+    // Remove from the end so earlier indices stay valid
+    for (let i = previous.length - 1; i >= shared; i--) {
+      ops.push({ op: 'remove', path: toPointer([...path, i.toString()]) });
+    }
+    return ops;
+  }
+
+  if (isObject(previous) && isObject(next)) {
+    const ops: JsonPatchOperation[] = [];
+    for (const key of Object.keys(previous)) {
+      if (!has(next, key)) {
+        ops.push({ op: 'remove', path: toPointer([...path, key]) });
+      } else {
+        ops.push(...diffJson(previous[key], next[key], [...path, key]));
+      }
+    }
+    for (const key of Object.keys(next)) {
+      if (!has(previous, key)) {
+        ops.push({ op: 'add', path: toPointer([...path, key]), value: next[key] });
+      }
+    }
+    return ops;
+  }
+
+  return [{ op: 'replace', path: toPointer(path), value: next }];
+}
+
+function clone<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
+
+// Parent container and final key of `pointer`
+function locate(document: unknown, pointer: string): { parent: Container; key: string } {
+  if (!isSafePointer(pointer)) throw new Error(`Unsafe JSON pointer: ${pointer}`);
+  const segments = parsePointer(pointer);
+  const key = segments.pop()!;
+  let parent: unknown = document;
+  for (const segment of segments) {
+    parent = (isObject(parent) || Array.isArray(parent)) && has(parent, segment)
+      ? (parent as Record<string, unknown>)[segment]
+      : undefined;
+  }
+  if (!isObject(parent) && !Array.isArray(parent)) {
+    throw new Error(`No container at ${pointer}`);
+  }
+  return { parent, key };
+}
+
+function get(document: unknown, pointer: string): unknown {
+  if (pointer === '') return document;
+  const { parent, key } = locate(document, pointer);
+  if (!has(parent, key)) throw new Error(`Nothing at ${pointer}`);
+  return (parent as Record<string, unknown>)[key];
+}
+
+function index(array: unknown[], key: string, pointer: string, allowEnd: boolean): number {
+  const i = key === '-' && allowEnd ? array.length : Number(key);
+  if (!/^(0|[1-9]\d*|-)$/.test(key) || i > array.length || (!allowEnd && i === array.length)) {
+    throw new Error(`Invalid array index at ${pointer}`);
+  }
+  return i;
+}
+
+function add(document: unknown, pointer: string, value: unknown): unknown {
+  if (pointer === '') return value;
+  const { parent, key } = locate(document, pointer);
+  if (Array.isArray(parent)) {
+    parent.splice(index(parent, key, pointer, true), 0, value);
+  } else {
+    parent[key] = value;
+  }
+  return document;
+}
+
+function remove(document: unknown, pointer: string): unknown {
+  if (pointer === '') throw new Error('Cannot remove the document root');
+  const { parent, key } = locate(document, pointer);
+  if (Array.isArray(parent)) {
+    parent.splice(index(parent, key, pointer, false), 1);
+  } else {
+    if (!has(parent, key)) throw new Error(`Nothing at ${pointer}`);
+    delete parent[key];
+  }
+  return document;
+}
+
+/**
+ * Apply RFC 6902 operations to a copy of `document`. Throws if an
+ * operation's path doesn't exist, goes through `__proto__`,
+ * `constructor` or `prototype`, or a test fails.
+ */
+export function applyJsonPatch(document: unknown, operations: JsonPatchOperation[]): unknown {
+  let result = clone(document);
+  for (const operation of operations) {
+    switch (operation.op) {
+      case 'add':
+        result = add(result, operation.path, clone(operation.value));
+        break;
+      case 'remove':
+        result = remove(result, operation.path);
+        break;
+      case 'replace':
+        get(result, operation.path);
+        result = operation.path === ''
+          ? clone(operation.value)
+          : add(remove(result, operation.path), operation.path, clone(operation.value));
+        break;
+      case 'move': {
+        const value = get(result, operation.from);
+        result = add(remove(result, operation.from), operation.path, value);
+        break;
+      }
+      case 'copy':
+        result = add(result, operation.path, clone(get(result, operation.from)));
+        break;
+      case 'test':
+        if (!isEqual(get(result, operation.path), operation.value)) {
+          throw new Error(`Test failed at ${operation.path}`);
+        }
+        break;
+    }
+  }
+  return result;
+}
@@ -0,0 +1,79 @@
+import { Frame, FrameFormat } from '../types';
+import { FrameProducerOptions, FrameState, JsonPatchOperation, PageSnapshot } from './types';
+import { diffHtml } from './html';
+import { diffJson, isSafePointer, parsePointer, toPointer } from './json';
+
+// Default FrameProducerOptions.diffThreshold
+export const DEFAULT_DIFF_THRESHOLD = 0.5;
+
+// Only spell out the format when it isn't the default
+export function tagged(format?: FrameFormat): { format?: FrameFormat } {
+  return format && format !== 'html' ? { format } : {};
+}
+
+// Deepest pointer every patched path sits under
+function commonPointer(patch: JsonPatchOperation[]): string {
+  const paths = patch.map(op => parsePointer(op.path));
+  // An empty patch changes nothing; point at the whole document
+  if (paths.length === 0) return '';
+  const common: string[] = [];
+  for (let i = 0; paths.every(p => i < p.length && p[i] === paths[0][i]); i++) {
+    common.push(paths[0][i]);
+  }
+  return toPointer(common);
+}
+
+function diffContent(previous: string, next: string, format: FrameFormat): { selector: string; content: string } | undefined {
+  if (format === 'html') return diffHtml(previous, next);
+  const patch = diffJson(JSON.parse(previous), JSON.parse(next));
+  // applyJsonPatch won't follow these, so send the whole document
+  if (!patch.every(op => isSafePointer(op.path))) return undefined;
+  return { selector: commonPointer(patch), content: JSON.stringify(patch) };
+}
+
+/**
+ * Build the frame for `next`. When `previous` is the same page (same
+ * URL and format, built on a full_page frame) the frame is a diff
+ * against it: an element replacement keyed by selector for HTML, an
+ * RFC 6902 patch for JSON. New pages, error states and diffs larger
+ * than diffThreshold of the full content get a full_page frame instead.
+ */
+export function produceFrame(
+  previous: FrameState | undefined,
+  next: PageSnapshot,
+  options: FrameProducerOptions = {}
+): Frame {
+  const format = next.format ?? 'html';
+  const full: Frame = {
+    sequence: next.sequence,
+    url: next.url,
+    changes: { type: 'full_page', ...tagged(format), content: next.content }
+  };
+
+  if (
+    !previous
+    || previous.baseFrame === undefined
+    || previous.url !== next.url
+    || (previous.format ?? 'html') !== format
+  ) {
+    return full;
+  }
+
+  const diff = diffContent(previous.content, next.content, format);
+  const threshold = options.diffThreshold ?? DEFAULT_DIFF_THRESHOLD;
+  if (!diff || diff.content.length > next.content.length * threshold) {
+    return full;
+  }
+
+  return {
+    sequence: next.sequence,
+    url: next.url,
+    changes: {
+      type: 'diff',
+      ...tagged(format),
+      selector: diff.selector,
+      content: diff.content,
+      baseFrame: previous.baseFrame
+    }
+  };
+}
@@ -0,0 +1,215 @@
+import { Frame, FrameErrorCode, FrameFormat } from '../types';
+import { FrameStoreOptions } from './types';
+import { FrameStore } from './store';
+import { tagged } from './producer';
+import { ErrorFrame, FrameError, frameErrorCode, SEQUENCE_INVALID_CODE, SequenceInvalidError } from './errors';
+
+// How a session's state is shown to the model
+export type FrameRenderer<S> = (state: S) => { url: string; content: string; format?: FrameFormat };
+
+export type FrameSessionOptions<S> = FrameStoreOptions & {
+  // Defaults to the state as JSON at '/'
+  render?: FrameRenderer<S>;
+};
+
+// A mutation expressed against whatever the state is when it commits
+export type StateUpdate<S> = (state: S) => S;
+
+// What a merge function is told about a stale mutation
+export type Conflict = {
+  basedOnSequence: number;
+  // The current sequence
+  sequence: number;
+  // Frames recorded after basedOnSequence, oldest first
+  intervening: Frame[];
+};
+
+// Combine a stale mutation's proposed state with the current one;
+// undefined rejects it
+export type MergeFunction<S> = (current: S, proposed: S, conflict: Conflict) => S | undefined;
+
+/**
+ * What commit() does with a mutation based on an older sequence:
+ * - 'reject': throw a SequenceInvalidError (the default)
+ * - 'rebase-if-commutative': apply a StateUpdate to the current state,
+ *   provided every mutation since was committed as commutative too
+ * - a MergeFunction deciding the state to commit
+ */
+export type ConflictPolicy<S> = 'reject' | 'rebase-if-commutative' | MergeFunction<S>;
+
+// What toJSON() keeps; frame history starts over on restore
+export type SerializedFrameSession<S> = {
+  id: string;
+  sequence: number;
+  state: S;
+};
+
+const apply = <S>(next: S | StateUpdate<S>, state: S): S =>
+  typeof next === 'function' ? (next as StateUpdate<S>)(state) : next;
+
+const renderJson: FrameRenderer<unknown> = state => ({ url: '/', content: JSON.stringify(state), format: 'json' });
+
+/**
+ * One agent's view of a stateful tool: the sequence counter, the state
+ * at that sequence and the frames that led there. Pass it to execute
+ * (InvokeOptions.session, or the second argument of a ToolDefinition's
+ * execute) so concurrent agents never share counters. Queries call
+ * check(), mutations commit() their next state; both throw a
+ * SequenceInvalidError when the caller is behind, unless the mutation's
+ * ConflictPolicy lets it apply to the current state. Other failures
+ * become FrameErrors through fail() or toFrameError().
+ */
+export class FrameSession<S = unknown> {
+  readonly store: FrameStore;
+  private current: S;
+  private counter: number;
+  private readonly render: FrameRenderer<S>;
+  // Sequences produced by commutative commits, which stale ones may rebase over
+  private readonly commutative = new Set<number>();
+
+  constructor(readonly id: string, initial: S, options: FrameSessionOptions<S> = {}, sequence = 1) {
+    this.store = new FrameStore(options);
+    this.render = options.render ?? renderJson;
+    this.current = initial;
+    this.counter = sequence;
+    this.store.record({ sequence, ...this.render(initial) });
+  }
+
+  static restore<S>(data: SerializedFrameSession<S>, options: FrameSessionOptions<S> = {}): FrameSession<S> {
+    return new FrameSession(data.id, data.state, options, data.sequence);
+  }
+
+  get sequence(): number {
+    return this.counter;
+  }
+
+  get state(): S {
+    return this.current;
+  }
+
+  // Throws SequenceInvalidError unless basedOnSequence is the current sequence
+  check(basedOnSequence: number): void {
+    if (basedOnSequence !== this.counter) {
+      throw this.sequenceInvalid(basedOnSequence);
+    }
+  }
+
+  // A FrameError with the current state, for tools to throw:
+  // `throw session.fail('element_not_found', 'Could not find #buy')`
+  fail(code: FrameErrorCode, message: string): FrameError {
+    return new FrameError(this.errorFrame(code, message));
+  }
+
+  /**
+   * Turn something a tool threw into a FrameError with the current
+   * state, when it maps to a frame error code (see frameErrorCode).
+   * FrameErrors pass through; undefined for anything else.
+   */
+  toFrameError(error: unknown): FrameError | undefined {
+    if (error instanceof FrameError) return error;
+
+    const code = frameErrorCode(error);
+    if (!code) return undefined;
+    return this.fail(code, error instanceof Error ? error.message : String(error));
+  }
+
+  // A full_page frame of the current state, for query results
+  snapshot(): Frame {
+    const { url, content, format } = this.render(this.current);
+    return {
+      sequence: this.counter,
+      url,
+      changes: { type: 'full_page', ...tagged(format), content }
+    };
+  }
+
+  /**
+   * Move to `next` as a mutation based on `basedOnSequence`: checks the
+   * sequence again (another mutation may have committed while this one
+   * ran), advances it and records the new frame, a diff where possible.
+   * `policy` decides what happens when basedOnSequence is stale; pass
+   * `next` as a StateUpdate for it to be rebased.
+   */
+  commit(basedOnSequence: number, next: S | StateUpdate<S>, policy: ConflictPolicy<S> = 'reject'): Frame {
+    const state = basedOnSequence === this.counter
+      ? apply(next, this.current)
+      : this.resolve(basedOnSequence, next, policy);
+
+    // Record first: if the frame can't be stored, the session stays put
+    const sequence = this.counter + 1;
+    const frame = this.store.record({ sequence, ...this.render(state) });
+    this.current = state;
+    this.counter = sequence;
+    if (policy === 'rebase-if-commutative' && typeof next === 'function') {
+      this.commutative.add(sequence);
+    }
+    return frame;
+  }
+
+  toJSON(): SerializedFrameSession<S> {
+    return { id: this.id, sequence: this.counter, state: this.current };
+  }
+
+  // The state a stale mutation commits, or throws when its policy rejects it
+  private resolve(basedOnSequence: number, next: S | StateUpdate<S>, policy: ConflictPolicy<S>): S {
+    const intervening = this.intervening(basedOnSequence);
+    // Only mutations from the past whose every successor is still stored
+    const complete = basedOnSequence < this.counter && intervening.length === this.counter - basedOnSequence;
+
+    if (complete && policy === 'rebase-if-commutative') {
+      if (typeof next === 'function' && intervening.every(f => this.commutative.has(f.sequence))) {
+        return apply(next, this.current);
+      }
+    } else if (complete && typeof policy === 'function') {
+      const merged = policy(this.current, apply(next, this.current), {
+        basedOnSequence,
+        sequence: this.counter,
+        intervening
+      });
+      if (merged !== undefined) return merged;
+    }
+    throw this.sequenceInvalid(basedOnSequence, intervening);
+  }
+
+  private intervening(basedOnSequence: number): Frame[] {
+    const frames = this.store.frames();
+    const oldest = frames[0]?.sequence ?? this.counter;
+    // Compacted sequences can't be rebased over any more
+    this.commutative.forEach(sequence => {
+      if (sequence < oldest) this.commutative.delete(sequence);
+    });
+    return frames.filter(f => f.sequence > basedOnSequence);
+  }
+
+  private sequenceInvalid(
+    basedOnSequence: number,
+    intervening = this.intervening(basedOnSequence)
+  ): SequenceInvalidError {
+    return new SequenceInvalidError(
+      this.errorFrame(
+        SEQUENCE_INVALID_CODE,
+        `Invalid sequence number ${basedOnSequence}: the current sequence is ${this.counter}`
+      ),
+      basedOnSequence,
+      intervening
+    );
+  }
+
+  // Error frames don't advance the sequence and aren't recorded
+  private errorFrame(code: FrameErrorCode, message: string): ErrorFrame {
+    const { url, content, format } = this.render(this.current);
+    return {
+      sequence: this.counter,
+      url,
+      changes: { type: 'error', ...tagged(format), content, error: { code, message } }
+    };
+  }
+}
+
+// For tools that can't run without a session
+export function requireSession<S>(session: FrameSession<any> | undefined): FrameSession<S> {
+  if (!session) {
+    throw new Error('This tool keeps per-session state; pass a FrameSession to execute');
+  }
+  return session;
+}
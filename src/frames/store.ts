@@ -0,0 +1,214 @@
+import { ToolError } from '../index';
+import { Frame, FrameFormat } from '../types';
+import { DiffApplier, FrameState, FrameStoreOptions, JsonPatchOperation, PageSnapshot } from './types';
+import { replaceElement } from './html';
+import { applyJsonPatch } from './json';
+import { produceFrame } from './producer';
+
+export const INVALID_FRAME_CODE = 'INVALID_FRAME';
+
+// Thrown (as a ToolError) when a frame breaks the protocol's ordering or base-frame rules
+export class InvalidFrameError extends Error implements ToolError {
+  readonly code = INVALID_FRAME_CODE;
+  readonly retryable = false;
+  readonly userMessage = 'The page history is inconsistent.';
+  readonly details: { sequence: number };
+
+  constructor(readonly sequence: number, message: string) {
+    super(message);
+    this.name = 'InvalidFrameError';
+    this.details = { sequence };
+  }
+}
+
+export const applyHtmlDiff: DiffApplier = (content, changes) =>
+  changes.selector === undefined ? undefined : replaceElement(content, changes.selector, changes.content);
+
+export const applyJsonDiff: DiffApplier = (content, changes) => {
+  try {
+    const patch = JSON.parse(changes.content) as JsonPatchOperation[];
+    return JSON.stringify(applyJsonPatch(JSON.parse(content), patch));
+  } catch {
+    return undefined;
+  }
+};
+
+// JSON patches for 'json' frames, element replacement for HTML
+export const applyFrameDiff: DiffApplier = (content, changes) =>
+  changes.format === 'json' ? applyJsonDiff(content, changes) : applyHtmlDiff(content, changes);
+
+// Materialized content of the page a URL is currently on
+type Page = {
+  baseFrame: number;
+  format: FrameFormat;
+  content: string;
+};
+
+/**
+ * Holds a session's frames and materializes page state from them.
+ * Frames must arrive in increasing sequence order; a diff must name the
+ * most recent full_page frame for its URL as baseFrame and apply
+ * cleanly to it. compact() drops old frames, folding diffs that later
+ * frames still build on into their base, so states from the oldest
+ * kept frame onwards stay reconstructible.
+ */
+export class FrameStore {
+  private readonly history: Frame[] = [];
+  // Latest page per URL, for validating and applying new diffs
+  private readonly pages = new Map<string, Page>();
+  // Base content for compacted full_page frames that are still built on
+  private readonly anchors = new Map<number, string>();
+  private readonly applyDiff: DiffApplier;
+
+  constructor(private readonly options: FrameStoreOptions = {}) {
+    this.applyDiff = options.applyDiff ?? applyFrameDiff;
+  }
+
+  append(frame: Frame): Frame {
+    const { sequence, url, changes } = frame;
+    const last = this.latest();
+    if (last && sequence <= last.sequence) {
+      throw new InvalidFrameError(sequence, `Frame ${sequence} does not follow frame ${last.sequence}`);
+    }
+
+    switch (changes.type) {
+      case 'full_page':
+        this.pages.set(url, { baseFrame: sequence, format: changes.format ?? 'html', content: changes.content });
+        break;
+      case 'diff': {
+        const page = this.pages.get(url);
+        if (!page) {
+          throw new InvalidFrameError(sequence, `Diff ${sequence} has no full_page frame for ${url} to build on`);
+        }
+        if (changes.baseFrame !== page.baseFrame) {
+          throw new InvalidFrameError(
+            sequence,
+            `Diff ${sequence} must be based on frame ${page.baseFrame}, the most recent full_page for ${url}`
+          );
+        }
+        if ((changes.format ?? 'html') !== page.format) {
+          throw new InvalidFrameError(sequence, `Diff ${sequence} is not ${page.format} like frame ${page.baseFrame}`);
+        }
+        page.content = this.apply(page.content, frame);
+        break;
+      }
+      case 'error':
+        if (!changes.error) {
+          throw new InvalidFrameError(sequence, `Error frame ${sequence} has no error`);
+        }
+        break;
+    }
+
+    this.history.push(frame);
+    if (this.options.maxFrames !== undefined && this.history.length > this.options.maxFrames) {
+      this.compact(this.history[this.history.length - this.options.maxFrames].sequence);
+    }
+    return frame;
+  }
+
+  // Append a diff from the current state to `next` when one is small enough, else a full_page frame
+  record(next: PageSnapshot): Frame {
+    return this.append(produceFrame(this.current(), next, this.options));
+  }
+
+  get(sequence: number): Frame | undefined {
+    return this.history.find(f => f.sequence === sequence);
+  }
+
+  latest(): Frame | undefined {
+    return this.history[this.history.length - 1];
+  }
+
+  // Frames still held, oldest first
+  frames(): Frame[] {
+    return [...this.history];
+  }
+
+  // Sequence a new diff for `url` must use as baseFrame
+  baseFrameFor(url: string): number | undefined {
+    return this.pages.get(url)?.baseFrame;
+  }
+
+  /**
+   * The page as of `sequence`: the latest frame at or before it, with
+   * diffs applied to their base. Undefined before the first frame or
+   * once that part of the history has been compacted.
+   */
+  stateAt(sequence: number): FrameState | undefined {
+    const frame = [...this.history].reverse().find(f => f.sequence <= sequence);
+    if (!frame) return undefined;
+
+    const { url, changes } = frame;
+    const { format } = changes;
+    switch (changes.type) {
+      case 'full_page':
+        return { sequence: frame.sequence, url, content: changes.content, format, baseFrame: frame.sequence };
+      case 'error':
+        return { sequence: frame.sequence, url, content: changes.content, format };
+      case 'diff': {
+        const baseFrame = changes.baseFrame!;
+        return { sequence: frame.sequence, url, content: this.replay(baseFrame, frame.sequence), format, baseFrame };
+      }
+    }
+  }
+
+  current(): FrameState | undefined {
+    const last = this.latest();
+    return last && this.stateAt(last.sequence);
+  }
+
+  /**
+   * Drop frames older than `before` (the latest frame is always kept).
+   * Returns how many frames were dropped.
+   */
+  compact(before: number): number {
+    const last = this.latest();
+    if (!last) return 0;
+    const floor = Math.min(before, last.sequence);
+    const kept = this.history.filter(f => f.sequence >= floor);
+    const dropped = this.history.length - kept.length;
+    if (!dropped) return 0;
+
+    // Bases that kept diffs, or diffs still to come, build on
+    const needed = new Set([
+      ...kept.filter(f => f.changes.type === 'diff').map(f => f.changes.baseFrame!),
+      ...[...this.pages.values()].map(p => p.baseFrame)
+    ]);
+    const anchors = new Map<number, string>();
+    for (const base of needed) {
+      if (base < floor) anchors.set(base, this.replay(base, floor - 1));
+    }
+
+    this.history.splice(0, dropped);
+    this.anchors.clear();
+    anchors.forEach((content, base) => this.anchors.set(base, content));
+    return dropped;
+  }
+
+  // Content of full_page `base` with its diffs up to `through` applied
+  private replay(base: number, through: number): string {
+    let content = this.anchors.get(base) ?? this.get(base)?.changes.content;
+    if (content === undefined) {
+      throw new InvalidFrameError(base, `Frame ${base} has been compacted`);
+    }
+    for (const frame of this.history) {
+      if (frame.sequence > through) break;
+      if (frame.changes.type === 'diff' && frame.changes.baseFrame === base) {
+        content = this.apply(content, frame);
+      }
+    }
+    return content;
+  }
+
+  private apply(content: string, frame: Frame): string {
+    const { changes } = frame;
+    const applied = this.applyDiff(content, changes);
+    if (applied === undefined) {
+      throw new InvalidFrameError(
+        frame.sequence,
+        `Diff ${frame.sequence} does not apply to frame ${changes.baseFrame} at ${changes.selector ?? '(no selector)'}`
+      );
+    }
+    return applied;
+  }
+}
@@ -0,0 +1,46 @@
+import { FrameChanges, FrameFormat } from '../types';
+
+// Apply a diff's changes to the content it is based on; undefined if it doesn't apply
+export type DiffApplier = (content: string, changes: FrameChanges) => string | undefined;
+
+export type FrameProducerOptions = {
+  // Largest diff worth sending, as a fraction of the full content's
+  // length; defaults to DEFAULT_DIFF_THRESHOLD
+  diffThreshold?: number;
+};
+
+// The materialized state a mutation left the page in
+export type PageSnapshot = {
+  sequence: number;
+  url: string;
+  content: string;
+  // Defaults to 'html'; JSON content is JSON text
+  format?: FrameFormat;
+};
+
+export type FrameStoreOptions = FrameProducerOptions & {
+  // Defaults to applyFrameDiff
+  applyDiff?: DiffApplier;
+  // Compact automatically once more than this many frames are held
+  maxFrames?: number;
+};
+
+// What the page looked like at a sequence
+export type FrameState = {
+  // The frame the state comes from: the latest one at or before the requested sequence
+  sequence: number;
+  url: string;
+  content: string;
+  format?: FrameFormat;
+  // full_page frame the content is built on; unset for error frames
+  baseFrame?: number;
+};
+
+// RFC 6902 JSON Patch operation; paths are RFC 6901 JSON pointers
+export type JsonPatchOperation =
+  | { op: 'add'; path: string; value: unknown }
+  | { op: 'remove'; path: string }
+  | { op: 'replace'; path: string; value: unknown }
+  | { op: 'move'; from: string; path: string }
+  | { op: 'copy'; from: string; path: string }
+  | { op: 'test'; path: string; value: unknown };
@@ -1,3 +1,6 @@
+import { FieldSchema, Infer, InferFields, UnknownSchema } from './schema';
+import { FrameSession } from './frames';
+
 // Core Protocol Types
 export type ModernTool = {
   version: string;
@@ -7,6 +10,10 @@ export type ModernTool = {
   errors: ErrorConfig;
   execution: ExecutionConfig;
   state: StateConfig;
+
+  // Declared argument fields and result shape, built with `s`
+  input?: Record<string, FieldSchema>;
+  output?: FieldSchema;
 };
 
 export type Documentation = {
@@ -46,11 +53,25 @@ export type RetryStrategy = {
   type: 'exponential-backoff' | 'fixed-interval' | 'custom';
   maxAttempts: number;
   initialDelay?: number;
+  // Only retry these error codes (defaults to every retryable error)
+  retryOn?: string[];
+  // Delay in ms before the retry following `attempt`, for 'custom' strategies
+  computeDelay?: (attempt: number) => number;
 };
 
 export type FallbackStrategy = {
   type: 'alternative-tool' | 'degraded-mode' | 'cache' | 'custom';
   description: string;
+  // Only fall back for these error codes (defaults to every error)
+  triggerOn?: string[];
+  // alternative-tool: ToolMetadata.id of the tool to run instead
+  toolId?: string;
+  // degraded-mode: input to re-run this tool with
+  degradeInput?: (input: any) => unknown;
+  // cache: key under which successful results are stored and looked up
+  cacheKey?: (input: any) => string;
+  // custom: produce a response from the failed input and final error
+  handler?: (input: any, error: ToolError) => Promise<ToolResponse>;
 };
 
 export type ExecutionConfig = {
@@ -86,10 +107,20 @@ export type SideEffect = {
 
 // Tool Response Types
 export type ToolResponse<T = unknown> = {
-  status: 'success' | 'error' | 'pending';
+  status: 'success' | 'error' | 'pending' | 'cancelled';
   data?: T;
   error?: ToolError;
   progress?: ProgressInfo;
+  // Set when the data came from a fallback rather than the tool itself
+  fallback?: FallbackInfo;
+};
+
+export type FallbackInfo = {
+  type: FallbackStrategy['type'];
+  description: string;
+  toolId?: string;
+  // The error that triggered the fallback
+  cause: ToolError;
 };
 
 export type ToolError = {
@@ -115,16 +146,58 @@ export type ToolMetadata = {
   maintainer?: string;
 };
 
+// Passed to execute on every attempt
+export type ExecutionContext = {
+  // Aborted when the caller cancels; never aborts if canBeCancelled is false
+  signal: AbortSignal;
+  // 1-based attempt number, counting retries
+  attempt: number;
+  // Report progress mid-run; requires supportsProgress. Percentages
+  // must stay within 0-100 and never decrease within an attempt.
+  reportProgress: (progress: ProgressInfo) => void;
+  // The caller's frame session, from InvokeOptions.session
+  session?: FrameSession<any>;
+};
+
+// A ModernTool with an implementation attached, as returned by createTool
+export type ExecutableTool<TInput = any, TOutput = unknown> = ModernTool & {
+  metadata: ToolMetadata;
+  execute: (input: TInput, context: ExecutionContext) => Promise<ToolResponse<TOutput>>;
+};
+
+// An ExecutableTool whose execute types are inferred from its schemas
+export type SchemaTool<
+  I extends Record<string, FieldSchema>,
+  O extends FieldSchema = UnknownSchema
+> = ExecutableTool<InferFields<I>, Infer<O>> & {
+  input: I;
+  output?: O;
+};
+
 // Helper Functions
+
+/**
+ * Define a tool. With an `input` schema (and optionally `output`), the
+ * execute signature is inferred from it, so a handler that reads a field
+ * the schema doesn't declare fails to compile. Tools without schemas
+ * pass TInput and TOutput explicitly.
+ */
+export function createTool<I extends Record<string, FieldSchema>, O extends FieldSchema = UnknownSchema>(
+  config: SchemaTool<I, O>
+): SchemaTool<I, O>;
 export function createTool<TInput, TOutput>(
-  config: ModernTool & {
-    metadata: ToolMetadata;
-    execute: (input: TInput) => Promise<ToolResponse<TOutput>>;
-  }
-) {
+  config: ExecutableTool<TInput, TOutput> & { input?: never; output?: never }
+): ExecutableTool<TInput, TOutput>;
+export function createTool(config: ExecutableTool) {
   return config;
 }
 
+export * from './runtime';
+export * from './streaming';
+export * from './events';
+export * from './schema';
+export * from './frames';
+
 // Example Usage
 export const exampleTool = createTool({
   version: '1.0.0',
@@ -0,0 +1,170 @@
+import { createTool, s, ToolResponse } from '../../index';
+import { defineTool } from '../../compiler';
+import { PassThrough } from 'stream';
+import {
+  createLinkedTransports,
+  createStdioTransport,
+  McpClient,
+  McpError,
+  McpServer,
+  METHOD_NOT_FOUND,
+  INVALID_PARAMS,
+  INVALID_REQUEST,
+  LATEST_PROTOCOL_VERSION
+} from '..';
+
+function tick() {
+  return new Promise(resolve => setTimeout(resolve, 0));
+}
+
+const add = defineTool({
+  name: 'add',
+  type: 'query',
+  description: 'Add two numbers',
+  input: { a: 'number', b: 'number' },
+  execute: async ({ a, b }) => ({ sum: a + b })
+});
+
+function makeSlowTool() {
+  let finish: () => void = () => undefined;
+  const aborted = jest.fn();
+
+  const tool = createTool({
+    version: '1.0.0',
+    metadata: { id: 'slow-job', name: 'Slow Job' },
+    documentation: { description: 'Runs a long job', examples: [], limitations: [] },
+    errors: { possibleErrors: [], retryStrategies: [] },
+    execution: { canBeCancelled: true, supportsProgress: true },
+    state: { persistsBetweenCalls: false },
+    input: { steps: s.integer() },
+    async execute({ steps }, { signal, reportProgress }): Promise<ToolResponse<string>> {
+      signal.addEventListener('abort', aborted);
+      reportProgress({ percentage: 50, message: `Halfway through ${steps} steps` });
+      await new Promise<void>(resolve => {
+        finish = resolve;
+      });
+      return { status: 'success', data: 'done' };
+    }
+  });
+
+  return { tool, finish: () => finish(), aborted };
+}
+
+function connect(server: McpServer) {
+  const [clientSide, serverSide] = createLinkedTransports();
+  server.connect(serverSide);
+  return new McpClient(clientSide);
+}
+
+describe('McpServer', () => {
+  it('initializes and lists tools with their input schemas', async () => {
+    const { tool } = makeSlowTool();
+    const client = connect(new McpServer([add, tool], { name: 'test-server', version: '1.2.3' }));
+
+    const init = await client.initialize();
+    expect(init).toMatchObject({ serverInfo: { name: 'test-server', version: '1.2.3' }, capabilities: { tools: {} } });
+
+    const tools = await client.listTools();
+    expect(tools.map(t => t.name)).toEqual(['add', 'slow-job']);
+    expect(tools[0].inputSchema).toEqual({
+      type: 'object',
+      properties: {
+        a: { type: 'number', description: 'Parameter a of type number' },
+        b: { type: 'number', description: 'Parameter b of type number' }
+      },
+      required: ['a', 'b']
+    });
+  });
+
+  it('negotiates the protocol version', async () => {
+    const server = new McpServer([add]);
+    const initialize = (protocolVersion: unknown) =>
+      server.handle({ jsonrpc: '2.0', id: 1, method: 'initialize', params: { protocolVersion } });
+
+    expect(await initialize('2024-11-05')).toMatchObject({ result: { protocolVersion: '2024-11-05' } });
+    expect(await initialize('1999-01-01')).toMatchObject({ result: { protocolVersion: LATEST_PROTOCOL_VERSION } });
+    expect(await initialize(undefined)).toMatchObject({ result: { protocolVersion: LATEST_PROTOCOL_VERSION } });
+  });
+
+  it('calls tools and reports tool failures with isError', async () => {
+    const client = connect(new McpServer([add]));
+
+    expect(await client.callTool('add', { a: 2, b: '3' })).toEqual({
+      content: [{ type: 'text', text: '{"sum":5}' }]
+    });
+
+    const failed = await client.callTool('add', { a: 2 });
+    expect(failed.isError).toBe(true);
+    expect(JSON.parse(failed.content[0].text).error.code).toBe('INVALID_INPUT');
+  });
+
+  it('answers unknown methods and tools with JSON-RPC errors', async () => {
+    const client = connect(new McpServer([add]));
+
+    await expect(client.request('resources/list')).rejects.toMatchObject({ code: METHOD_NOT_FOUND });
+    await expect(client.callTool('nope')).rejects.toBeInstanceOf(McpError);
+    await expect(client.callTool('nope')).rejects.toMatchObject({ code: INVALID_PARAMS });
+  });
+
+  it('answers messages that are not objects with Invalid Request', async () => {
+    const server = new McpServer([add]);
+    for (const message of [null, 5, 'x', []]) {
+      expect(await server.handle(message as any)).toEqual({
+        jsonrpc: '2.0',
+        id: null,
+        error: { code: INVALID_REQUEST, message: 'Invalid Request' }
+      });
+    }
+
+    const input = new PassThrough();
+    const output = new PassThrough();
+    server.connect(createStdioTransport(input, output));
+    input.write('null\n');
+    await tick();
+    expect(JSON.parse(output.read().toString())).toMatchObject({ id: null, error: { code: INVALID_REQUEST } });
+  });
+
+  it('forwards progress for calls with a progress token', async () => {
+    const { tool, finish } = makeSlowTool();
+    const client = connect(new McpServer([tool]));
+    const onProgress = jest.fn();
+
+    const pending = client.callTool('slow-job', { steps: 4 }, { onProgress });
+    await tick();
+    finish();
+
+    expect(await pending).toEqual({ content: [{ type: 'text', text: 'done' }] });
+    expect(onProgress).toHaveBeenCalledWith({ progress: 50, total: 100, message: 'Halfway through 4 steps' });
+  });
+
+  it('aborts the tool on notifications/cancelled and sends no response', async () => {
+    const { tool, aborted } = makeSlowTool();
+    const server = new McpServer([tool]);
+    const sent: unknown[] = [];
+
+    const response = server.handle(
+      { jsonrpc: '2.0', id: 7, method: 'tools/call', params: { name: 'slow-job', arguments: { steps: 1 } } },
+      notification => sent.push(notification)
+    );
+    await tick();
+    await server.handle({ jsonrpc: '2.0', method: 'notifications/cancelled', params: { requestId: 7, reason: 'User stopped' } });
+
+    expect(await response).toBeUndefined();
+    expect(aborted).toHaveBeenCalled();
+    expect(sent).toEqual([]);
+  });
+
+  it('cancels through the client signal', async () => {
+    const { tool, aborted } = makeSlowTool();
+    const client = connect(new McpServer([tool]));
+    const controller = new AbortController();
+
+    const pending = client.callTool('slow-job', { steps: 1 }, { signal: controller.signal });
+    await tick();
+    controller.abort();
+
+    await expect(pending).rejects.toMatchObject({ code: 'CANCELLED' });
+    await tick();
+    expect(aborted).toHaveBeenCalled();
+  });
+});
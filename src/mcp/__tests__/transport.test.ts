@@ -0,0 +1,40 @@
+import { PassThrough } from 'stream';
+import { createStdioTransport } from '..';
+
+describe('createStdioTransport', () => {
+  it('reads newline-delimited messages split across chunks and writes one per line', () => {
+    const input = new PassThrough();
+    const output = new PassThrough();
+    const onParseError = jest.fn();
+    const transport = createStdioTransport(input, output, onParseError);
+    const received: unknown[] = [];
+    transport.onMessage(message => received.push(message));
+
+    input.write('{"jsonrpc":"2.0","id":1,"method":"pi');
+    input.write('ng"}\nnot json\n\n{"jsonrpc":"2.0","method":"notifications/initialized"}\n');
+    transport.send({ jsonrpc: '2.0', id: 1, result: {} });
+
+    expect(received).toEqual([
+      { jsonrpc: '2.0', id: 1, method: 'ping' },
+      { jsonrpc: '2.0', method: 'notifications/initialized' }
+    ]);
+    expect(onParseError).toHaveBeenCalledWith('not json', expect.any(SyntaxError));
+    expect(output.read().toString()).toBe('{"jsonrpc":"2.0","id":1,"result":{}}\n');
+    transport.close?.();
+  });
+
+  it('keeps multi-byte characters split across chunks', () => {
+    const input = new PassThrough();
+    const transport = createStdioTransport(input, new PassThrough());
+    const received: unknown[] = [];
+    transport.onMessage(message => received.push(message));
+
+    const line = Buffer.from('{"jsonrpc":"2.0","method":"note","params":{"text":"é€"}}\n');
+    const split = line.indexOf(Buffer.from('€')) + 1;
+    input.write(line.subarray(0, split));
+    input.write(line.subarray(split));
+
+    expect(received).toEqual([{ jsonrpc: '2.0', method: 'note', params: { text: 'é€' } }]);
+    transport.close?.();
+  });
+});
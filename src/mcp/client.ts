@@ -0,0 +1,140 @@
+import { JsonRpcError, JsonRpcId, JsonRpcMessage, JsonRpcNotification, McpCallToolResult, McpTool, McpTransport } from './types';
+
+type Pending = {
+  resolve: (result: any) => void;
+  reject: (error: Error) => void;
+};
+
+export type McpRequestOptions = {
+  // Sends notifications/cancelled and rejects when aborted
+  signal?: AbortSignal;
+};
+
+export type McpCallOptions = McpRequestOptions & {
+  onProgress?: (progress: { progress: number; total?: number; message?: string }) => void;
+};
+
+// Rejection for JSON-RPC error responses
+export class McpError extends Error {
+  readonly code: number;
+  readonly data?: unknown;
+
+  constructor(error: JsonRpcError) {
+    super(error.message);
+    this.name = 'McpError';
+    this.code = error.code;
+    this.data = error.data;
+  }
+}
+
+/**
+ * Minimal MCP client, enough to drive an McpServer in-process (see
+ * createLinkedTransports) or talk to another server in tests.
+ */
+export class McpClient {
+  private nextId = 1;
+  private nextProgressToken = 1;
+  private readonly pending = new Map<JsonRpcId, Pending>();
+  private readonly listeners = new Set<(notification: JsonRpcNotification) => void>();
+  private readonly detach: () => void;
+
+  constructor(private readonly transport: McpTransport) {
+    this.detach = transport.onMessage(message => this.receive(message));
+  }
+
+  request<T = any>(method: string, params?: unknown, options: McpRequestOptions = {}): Promise<T> {
+    const id = this.nextId++;
+    return new Promise<T>((resolve, reject) => {
+      const { signal } = options;
+      const abort = () => {
+        this.pending.delete(id);
+        this.notify('notifications/cancelled', { requestId: id, reason: String(signal?.reason ?? 'Cancelled') });
+        reject(Object.assign(new Error('Request cancelled'), { code: 'CANCELLED' }));
+      };
+      if (signal?.aborted) return abort();
+
+      signal?.addEventListener('abort', abort, { once: true });
+      this.pending.set(id, {
+        resolve: result => {
+          signal?.removeEventListener('abort', abort);
+          resolve(result);
+        },
+        reject: error => {
+          signal?.removeEventListener('abort', abort);
+          reject(error);
+        }
+      });
+      this.transport.send({ jsonrpc: '2.0', id, method, ...(params !== undefined && { params }) });
+    });
+  }
+
+  notify(method: string, params?: unknown) {
+    this.transport.send({ jsonrpc: '2.0', method, ...(params !== undefined && { params }) });
+  }
+
+  // Subscribe to server notifications; returns an unsubscribe function
+  onNotification(listener: (notification: JsonRpcNotification) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  async initialize(): Promise<unknown> {
+    const result = await this.request('initialize', {
+      protocolVersion: '2025-03-26',
+      capabilities: {},
+      clientInfo: { name: 'modern-ai-tool-protocol-client', version: '0.1.0' }
+    });
+    this.notify('notifications/initialized');
+    return result;
+  }
+
+  async listTools(): Promise<McpTool[]> {
+    const { tools } = await this.request<{ tools: McpTool[] }>('tools/list');
+    return tools;
+  }
+
+  callTool(name: string, args: unknown = {}, options: McpCallOptions = {}): Promise<McpCallToolResult> {
+    if (!options.onProgress) {
+      return this.request('tools/call', { name, arguments: args }, options);
+    }
+
+    const progressToken = `progress-${this.nextProgressToken++}`;
+    const onProgress = options.onProgress;
+    const stop = this.onNotification(({ method, params }) => {
+      if (method === 'notifications/progress' && params?.progressToken === progressToken) {
+        onProgress({ progress: params.progress, total: params.total, message: params.message });
+      }
+    });
+    return this.request<McpCallToolResult>(
+      'tools/call',
+      { name, arguments: args, _meta: { progressToken } },
+      options
+    ).finally(stop);
+  }
+
+  close() {
+    this.detach();
+    this.pending.forEach(({ reject }) => reject(new Error('Client closed')));
+    this.pending.clear();
+    this.transport.close?.();
+  }
+
+  private receive(message: JsonRpcMessage) {
+    if ('method' in message) {
+      if (!('id' in message)) this.listeners.forEach(listener => listener(message));
+      return;
+    }
+    if (message.id === null) return;
+
+    const pending = this.pending.get(message.id);
+    if (!pending) return;
+    this.pending.delete(message.id);
+    if ('error' in message) {
+      pending.reject(new McpError(message.error));
+    } else {
+      pending.resolve(message.result);
+    }
+  }
+}
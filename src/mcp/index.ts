@@ -0,0 +1,4 @@
+export * from './types';
+export * from './transport';
+export * from './server';
+export * from './client';
@@ -0,0 +1,200 @@
+import { compileToAnthropic, dispatchTool, DispatchableTool, formatToolResult, toolName } from '../compiler';
+import { ProgressListener } from '../runtime';
+import { createStdioTransport } from './transport';
+import {
+  JsonRpcError,
+  JsonRpcId,
+  JsonRpcMessage,
+  JsonRpcRequest,
+  JsonRpcResponse,
+  McpCallToolResult,
+  McpServerOptions,
+  McpTool,
+  McpTransport
+} from './types';
+
+export const LATEST_PROTOCOL_VERSION = '2025-03-26';
+// Versions whose tools API this server implements, newest first
+export const SUPPORTED_PROTOCOL_VERSIONS = [LATEST_PROTOCOL_VERSION, '2024-11-05'];
+
+// JSON-RPC error codes
+export const PARSE_ERROR = -32700;
+export const INVALID_REQUEST = -32600;
+export const METHOD_NOT_FOUND = -32601;
+export const INVALID_PARAMS = -32602;
+export const INTERNAL_ERROR = -32603;
+
+// Agree to the client's version when supported, else offer our latest
+function negotiateVersion(requested: unknown): string {
+  return SUPPORTED_PROTOCOL_VERSIONS.find(version => version === requested) ?? LATEST_PROTOCOL_VERSION;
+}
+
+class RpcError extends Error {
+  constructor(readonly code: number, message: string) {
+    super(message);
+  }
+}
+
+function isRequest(message: JsonRpcMessage): message is JsonRpcRequest {
+  return 'method' in message && 'id' in message && message.id !== undefined && message.id !== null;
+}
+
+/**
+ * Serves tools over the Model Context Protocol. Handles initialize,
+ * ping, tools/list and tools/call. Calls that carry a progressToken get
+ * notifications/progress from the tool's reportProgress, and
+ * notifications/cancelled aborts the matching call (for tools that can
+ * be cancelled); cancelled calls get no response, per the spec.
+ */
+export class McpServer {
+  private readonly inFlight = new Map<JsonRpcId, AbortController>();
+
+  constructor(
+    private readonly tools: DispatchableTool[],
+    private readonly options: McpServerOptions = {}
+  ) {}
+
+  /**
+   * Start answering messages from `transport`. Returns a function that
+   * detaches the server again.
+   */
+  connect(transport: McpTransport): () => void {
+    return transport.onMessage(message => {
+      this.handle(message, notification => transport.send(notification)).then(
+        response => {
+          if (response) transport.send(response);
+        }
+      ).catch(e => {
+        // handle() answers errors itself; this is a last resort so a bad
+        // message can't become an unhandled rejection
+        transport.send({
+          jsonrpc: '2.0',
+          id: null,
+          error: { code: INTERNAL_ERROR, message: e instanceof Error ? e.message : String(e) }
+        });
+      });
+    });
+  }
+
+  /**
+   * Handle one incoming message. Resolves to the response to send, or
+   * undefined for notifications and cancelled calls. `notify` receives
+   * any notifications sent while handling it.
+   */
+  async handle(
+    message: JsonRpcMessage,
+    notify: (notification: JsonRpcMessage) => void = () => undefined
+  ): Promise<JsonRpcResponse | undefined> {
+    // Any JSON parses, but only objects are messages
+    if (typeof message !== 'object' || message === null || Array.isArray(message)) {
+      return { jsonrpc: '2.0', id: null, error: { code: INVALID_REQUEST, message: 'Invalid Request' } };
+    }
+    if (!('method' in message)) {
+      // Responses to server-initiated requests; we never send any
+      return undefined;
+    }
+    if (!isRequest(message)) {
+      this.handleNotification(message.method, message.params);
+      return undefined;
+    }
+
+    const { id } = message;
+    try {
+      const result = await this.dispatch(message, notify);
+      if (this.inFlight.get(id)?.signal.aborted) return undefined;
+      return { jsonrpc: '2.0', id, result };
+    } catch (e) {
+      const error: JsonRpcError = e instanceof RpcError
+        ? { code: e.code, message: e.message }
+        : { code: INTERNAL_ERROR, message: e instanceof Error ? e.message : String(e) };
+      return { jsonrpc: '2.0', id, error };
+    } finally {
+      this.inFlight.delete(id);
+    }
+  }
+
+  listTools(): McpTool[] {
+    return this.tools.map(tool => {
+      const { name, description, input_schema } = compileToAnthropic(tool);
+      return { name, description, inputSchema: input_schema };
+    });
+  }
+
+  private dispatch(request: JsonRpcRequest, notify: (notification: JsonRpcMessage) => void): Promise<unknown> | unknown {
+    switch (request.method) {
+      case 'initialize':
+        return {
+          protocolVersion: negotiateVersion(request.params?.protocolVersion),
+          capabilities: { tools: { listChanged: false } },
+          serverInfo: {
+            name: this.options.name ?? 'modern-ai-tool-protocol',
+            version: this.options.version ?? '0.1.0'
+          }
+        };
+      case 'ping':
+        return {};
+      case 'tools/list':
+        return { tools: this.listTools() };
+      case 'tools/call':
+        return this.callTool(request, notify);
+      default:
+        throw new RpcError(METHOD_NOT_FOUND, `Method not found: ${request.method}`);
+    }
+  }
+
+  private async callTool(
+    request: JsonRpcRequest,
+    notify: (notification: JsonRpcMessage) => void
+  ): Promise<McpCallToolResult> {
+    const name = request.params?.name;
+    if (typeof name !== 'string') {
+      throw new RpcError(INVALID_PARAMS, 'tools/call requires a tool name');
+    }
+    if (!this.tools.some(tool => toolName(tool) === name)) {
+      throw new RpcError(INVALID_PARAMS, `Unknown tool: ${name}`);
+    }
+
+    const controller = new AbortController();
+    this.inFlight.set(request.id, controller);
+
+    const progressToken = request.params?._meta?.progressToken;
+    const onProgress: ProgressListener | undefined = progressToken === undefined
+      ? undefined
+      : ({ progress }) => {
+        if (!progress) return;
+        notify({
+          jsonrpc: '2.0',
+          method: 'notifications/progress',
+          params: { progressToken, progress: progress.percentage, total: 100, message: progress.message }
+        });
+      };
+
+    const response = await dispatchTool(this.tools, name, request.params?.arguments ?? {}, {
+      signal: controller.signal,
+      onProgress
+    });
+    return {
+      content: [{ type: 'text', text: formatToolResult(response) }],
+      ...(response.status !== 'success' && { isError: true })
+    };
+  }
+
+  private handleNotification(method: string, params: any) {
+    if (method === 'notifications/cancelled') {
+      this.inFlight.get(params?.requestId)?.abort(params?.reason ?? 'Cancelled by client');
+    }
+  }
+}
+
+/**
+ * Serve `tools` over stdin/stdout, the usual way MCP clients launch
+ * local servers. Unparseable lines get a JSON-RPC parse error.
+ */
+export function serveStdio(tools: DispatchableTool[], options: McpServerOptions = {}): McpServer {
+  const server = new McpServer(tools, options);
+  const transport: McpTransport = createStdioTransport(process.stdin, process.stdout, () => {
+    transport.send({ jsonrpc: '2.0', id: null, error: { code: PARSE_ERROR, message: 'Parse error' } });
+  });
+  server.connect(transport);
+  return server;
+}
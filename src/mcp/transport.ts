@@ -0,0 +1,91 @@
+import { StringDecoder } from 'string_decoder';
+import { JsonRpcMessage, McpTransport } from './types';
+
+type Listener = (message: JsonRpcMessage) => void;
+
+function listenerSet() {
+  const listeners = new Set<Listener>();
+  return {
+    add(listener: Listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    emit(message: JsonRpcMessage) {
+      listeners.forEach(listener => listener(message));
+    }
+  };
+}
+
+/**
+ * Two connected in-process transports, e.g. one for an McpClient and one
+ * for a server. Messages are delivered asynchronously, as over a pipe,
+ * and round-trip through JSON so tests see what a real peer would.
+ */
+export function createLinkedTransports(): [McpTransport, McpTransport] {
+  const a = listenerSet();
+  const b = listenerSet();
+  let closed = false;
+
+  const deliver = (target: ReturnType<typeof listenerSet>, message: JsonRpcMessage) => {
+    if (closed) return;
+    const copy = JSON.parse(JSON.stringify(message)) as JsonRpcMessage;
+    queueMicrotask(() => {
+      if (!closed) target.emit(copy);
+    });
+  };
+  const close = () => {
+    closed = true;
+  };
+
+  return [
+    { send: message => deliver(b, message), onMessage: a.add, close },
+    { send: message => deliver(a, message), onMessage: b.add, close }
+  ];
+}
+
+/**
+ * Newline-delimited JSON-RPC over a pair of streams, as MCP's stdio
+ * transport specifies. Lines that aren't valid JSON are reported to
+ * onParseError rather than dropped silently.
+ */
+export function createStdioTransport(
+  input: NodeJS.ReadableStream = process.stdin,
+  output: NodeJS.WritableStream = process.stdout,
+  onParseError: (line: string, error: unknown) => void = () => undefined
+): McpTransport {
+  const listeners = listenerSet();
+  // Keeps multi-byte characters split across chunks intact
+  const decoder = new StringDecoder('utf8');
+  let buffer = '';
+
+  const onData = (chunk: Buffer | string) => {
+    buffer += typeof chunk === 'string' ? chunk : decoder.write(chunk);
+    let newline: number;
+    while ((newline = buffer.indexOf('\n')) !== -1) {
+      const line = buffer.slice(0, newline).trim();
+      buffer = buffer.slice(newline + 1);
+      if (!line) continue;
+      let message: JsonRpcMessage;
+      try {
+        message = JSON.parse(line);
+      } catch (e) {
+        onParseError(line, e);
+        continue;
+      }
+      listeners.emit(message);
+    }
+  };
+  input.on('data', onData);
+
+  return {
+    send(message) {
+      output.write(`${JSON.stringify(message)}\n`);
+    },
+    onMessage: listeners.add,
+    close() {
+      input.removeListener('data', onData);
+    }
+  };
+}
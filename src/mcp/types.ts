@@ -0,0 +1,56 @@
+import { JsonSchema } from '../schema';
+
+export type JsonRpcId = string | number;
+
+export type JsonRpcRequest = {
+  jsonrpc: '2.0';
+  id: JsonRpcId;
+  method: string;
+  params?: any;
+};
+
+export type JsonRpcNotification = {
+  jsonrpc: '2.0';
+  method: string;
+  params?: any;
+};
+
+export type JsonRpcError = {
+  code: number;
+  message: string;
+  data?: unknown;
+};
+
+export type JsonRpcResponse =
+  | { jsonrpc: '2.0'; id: JsonRpcId; result: any }
+  | { jsonrpc: '2.0'; id: JsonRpcId | null; error: JsonRpcError };
+
+export type JsonRpcMessage = JsonRpcRequest | JsonRpcNotification | JsonRpcResponse;
+
+// Moves JSON-RPC messages between a client and a server
+export interface McpTransport {
+  send(message: JsonRpcMessage): void;
+  // Returns an unsubscribe function
+  onMessage(handler: (message: JsonRpcMessage) => void): () => void;
+  close?(): void;
+}
+
+// Tool as listed by tools/list
+export type McpTool = {
+  name: string;
+  description: string;
+  inputSchema: JsonSchema & { type: 'object' };
+};
+
+export type McpContent = { type: 'text'; text: string };
+
+// Result of tools/call; tool failures are reported here, not as JSON-RPC errors
+export type McpCallToolResult = {
+  content: McpContent[];
+  isError?: boolean;
+};
+
+export type McpServerOptions = {
+  name?: string;
+  version?: string;
+};
@@ -0,0 +1,128 @@
+import { getEventListeners } from 'events';
+import { startTool, invokeTool, CANCELLED_CODE, Clock } from '../index';
+import { createTool, ExecutionContext, ToolResponse } from '../../index';
+
+const clock: Clock = { now: () => 0, sleep: () => new Promise(() => {}) };
+
+function makeTool(
+  canBeCancelled: boolean,
+  execute: (input: { q: string }, context: ExecutionContext) => Promise<ToolResponse<string>>
+) {
+  return createTool<{ q: string }, string>({
+    version: '1.0.0',
+    metadata: { id: 'slow', name: 'Slow Tool' },
+    documentation: { description: 'Slow tool for cancellation tests', examples: [], limitations: [] },
+    errors: {
+      possibleErrors: [{
+        code: 'UNAVAILABLE',
+        description: 'Upstream unavailable',
+        isRetryable: true,
+        suggestedUserMessage: 'Service is down'
+      }],
+      retryStrategies: [{ type: 'fixed-interval', maxAttempts: 3, initialDelay: 1000 }]
+    },
+    execution: { canBeCancelled, supportsProgress: false },
+    state: { persistsBetweenCalls: false },
+    execute
+  });
+}
+
+// Resolves once the signal aborts, like a well-behaved long-running tool
+function untilAborted({ signal }: ExecutionContext): Promise<ToolResponse<string>> {
+  return new Promise(resolve => {
+    signal.addEventListener('abort', () => resolve({ status: 'cancelled' }));
+  });
+}
+
+describe('tool cancellation', () => {
+  it('passes an abort signal to execute and settles as cancelled', async () => {
+    let seen: AbortSignal | undefined;
+    const tool = makeTool(true, (_input, context) => {
+      seen = context.signal;
+      return untilAborted(context);
+    });
+
+    const invocation = startTool(tool, { q: 'x' }, { clock });
+    await Promise.resolve();
+    expect(invocation.cancel('user pressed stop')).toBe(true);
+    const { response } = await invocation.result;
+
+    expect(seen?.aborted).toBe(true);
+    expect(response.status).toBe('cancelled');
+  });
+
+  it('does not wait for tools that ignore the signal', async () => {
+    const tool = makeTool(true, () => new Promise(() => {}));
+
+    const invocation = startTool(tool, { q: 'x' }, { clock });
+    invocation.cancel('user pressed stop');
+    const { response } = await invocation.result;
+
+    expect(response).toEqual({
+      status: 'cancelled',
+      error: expect.objectContaining({ code: CANCELLED_CODE, message: 'user pressed stop', retryable: false })
+    });
+  });
+
+  it('refuses to cancel tools that declare canBeCancelled: false', async () => {
+    let seen: AbortSignal | undefined;
+    const tool = makeTool(false, async (_input, { signal }) => {
+      seen = signal;
+      return { status: 'success', data: 'finished' };
+    });
+
+    const invocation = startTool(tool, { q: 'x' }, { clock });
+    expect(invocation.cancellable).toBe(false);
+    expect(invocation.cancel()).toBe(false);
+    const { response } = await invocation.result;
+
+    expect(response.status).toBe('success');
+    expect(seen?.aborted).toBe(false);
+  });
+
+  it('stops retrying when cancelled during a backoff delay', async () => {
+    const execute = jest.fn(async (): Promise<ToolResponse<string>> => ({
+      status: 'error',
+      error: { code: 'UNAVAILABLE', message: 'down', retryable: true, userMessage: '' }
+    }));
+    const tool = makeTool(true, execute);
+
+    const invocation = startTool(tool, { q: 'x' }, { clock, jitter: d => d });
+    await new Promise(resolve => setImmediate(resolve));
+    invocation.cancel();
+    const result = await invocation.result;
+
+    expect(execute).toHaveBeenCalledTimes(1);
+    expect(result.response.status).toBe('cancelled');
+    expect(result.attempts[0].delayBeforeNext).toBe(1000);
+  });
+
+  it('honours an external signal passed to invokeTool', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const tool = makeTool(true, (_input, context) => untilAborted(context));
+
+    const { response } = await invokeTool(tool, { q: 'x' }, { clock, signal: controller.signal });
+
+    expect(response.status).toBe('cancelled');
+  });
+
+  it('stops listening to the external signal once settled', async () => {
+    const controller = new AbortController();
+    const tool = makeTool(true, async () => ({ status: 'success', data: 'done' }));
+
+    await invokeTool(tool, { q: 'x' }, { clock, signal: controller.signal });
+    await invokeTool(tool, { q: 'y' }, { clock, signal: controller.signal });
+
+    expect(getEventListeners(controller.signal, 'abort')).toHaveLength(0);
+  });
+
+  it('reports false when cancelling an invocation that already settled', async () => {
+    const tool = makeTool(true, async () => ({ status: 'success', data: 'done' }));
+
+    const invocation = startTool(tool, { q: 'x' }, { clock });
+    await invocation.result;
+
+    expect(invocation.cancel()).toBe(false);
+  });
+});
@@ -0,0 +1,148 @@
+import { ToolExecutor, Clock } from '../index';
+import { createEventBus, UserEvent } from '../../events';
+import { createStreamingTool, StreamEvent } from '../../streaming';
+import { createTool, ExecutionContext, ToolResponse } from '../../index';
+
+function setup() {
+  let time = 0;
+  const clock: Clock = {
+    now: () => time,
+    sleep: async (ms) => {
+      time += ms;
+    }
+  };
+  const bus = createEventBus();
+  const events: UserEvent[] = [];
+  bus.on('*', event => events.push(event));
+  const executor = new ToolExecutor(bus, { clock, jitter: d => d });
+  const advance = (ms: number) => {
+    time += ms;
+  };
+  return { executor, events, advance };
+}
+
+function makeTool(execute: (input: { prompt: string }, context: ExecutionContext) => Promise<ToolResponse<string>>) {
+  return createTool<{ prompt: string }, string>({
+    version: '1.0.0',
+    metadata: { id: 'image-generator', name: 'Image Generator' },
+    documentation: {
+      description: 'Generates images',
+      examples: [],
+      limitations: [],
+      costImplications: { estimatedCostPerCall: 0.02, currency: 'USD', billingModel: 'per-call' }
+    },
+    errors: {
+      possibleErrors: [
+        { code: 'RATE_LIMITED', description: 'Slow down', isRetryable: true, suggestedUserMessage: 'Try again in a minute' },
+        { code: 'NSFW_CONTENT', description: 'Blocked prompt', isRetryable: false, suggestedUserMessage: 'Modify the prompt' }
+      ],
+      retryStrategies: [{ type: 'fixed-interval', maxAttempts: 2, initialDelay: 100 }]
+    },
+    execution: {
+      estimatedDuration: { min: 5, max: 30, unit: 's' },
+      canBeCancelled: true,
+      supportsProgress: true
+    },
+    state: { persistsBetweenCalls: false },
+    execute
+  });
+}
+
+const summary = (events: UserEvent[]) => events.map(e => [e.type, e.payload]);
+
+describe('ToolExecutor', () => {
+  it('emits start, progress and complete with duration and cost', async () => {
+    const { executor, events, advance } = setup();
+    const tool = makeTool(async (_input, { reportProgress }) => {
+      reportProgress({ percentage: 50, message: 'Denoising', eta: 2 });
+      advance(1500);
+      return { status: 'success', data: 'https://img' };
+    });
+
+    await executor.executeTool(tool, { prompt: 'sunset' });
+
+    expect(summary(events)).toEqual([
+      ['tool.start', { toolId: 'image-generator', input: { prompt: 'sunset' }, expectedDuration: 30000 }],
+      ['tool.progress', { toolId: 'image-generator', progress: 50, message: 'Denoising', eta: 2 }],
+      ['tool.complete', { toolId: 'image-generator', result: 'https://img', duration: 1500, cost: 0.02 }]
+    ]);
+  });
+
+  it('bills per-call tools for every attempt', async () => {
+    const { executor, events } = setup();
+    let calls = 0;
+    const tool = makeTool(async () => (++calls === 1
+      ? { status: 'error', error: { code: 'RATE_LIMITED', message: '429', retryable: true, userMessage: '' } }
+      : { status: 'success', data: 'ok' }));
+
+    await executor.executeTool(tool, { prompt: 'x' });
+
+    expect(events[events.length - 1].payload).toEqual(expect.objectContaining({ cost: 0.04, duration: 100 }));
+  });
+
+  it('sets canRetry from the matching ErrorType', async () => {
+    const { executor, events } = setup();
+    const tool = makeTool(async () => ({
+      status: 'error',
+      error: { code: 'NSFW_CONTENT', message: 'blocked', retryable: true, userMessage: 'blocked' }
+    }));
+
+    await executor.executeTool(tool, { prompt: 'x' });
+
+    expect(events.map(e => e.type)).toEqual(['tool.start', 'tool.error']);
+    expect(events[1].payload).toEqual(expect.objectContaining({
+      canRetry: false,
+      suggestedAction: 'Modify the prompt'
+    }));
+  });
+
+  it('reports a tool that ends pending as an error, not a completion', async () => {
+    const { executor, events } = setup();
+    const tool = makeTool(async () => ({ status: 'pending' }));
+
+    await executor.executeTool(tool, { prompt: 'x' });
+
+    expect(events.map(e => e.type)).toEqual(['tool.start', 'tool.error']);
+    expect(events[1].payload).toEqual(expect.objectContaining({
+      error: expect.objectContaining({ code: 'UNKNOWN_ERROR', message: 'Tool ended with a pending response and no result' })
+    }));
+  });
+
+  it('emits tool.cancel when the invocation is cancelled', async () => {
+    const { executor, events } = setup();
+    const tool = makeTool(() => new Promise(() => {}));
+
+    const invocation = executor.startTool(tool, { prompt: 'x' });
+    invocation.cancel('user stopped');
+    await invocation.result;
+
+    expect(summary(events).slice(1)).toEqual([['tool.cancel', { toolId: 'image-generator', reason: 'user stopped' }]]);
+  });
+
+  it('emits chunk events for streaming tools', async () => {
+    const { executor, events } = setup();
+    const tool = createStreamingTool<{ count: number }, number>({
+      version: '1.0.0',
+      metadata: { id: 'number-stream', name: 'Numbers' },
+      documentation: { description: 'Numbers', examples: [], limitations: [] },
+      errors: { possibleErrors: [], retryStrategies: [] },
+      execution: { canBeCancelled: true, supportsProgress: true },
+      state: { persistsBetweenCalls: false },
+      streaming: { supportsPartialResults: true, supportsPause: false },
+      async *executeStream({ count }): AsyncGenerator<StreamEvent<number>> {
+        for (let i = 0; i < count; i++) yield { type: 'data', chunk: i * 10 };
+      }
+    });
+
+    const seen: StreamEvent<number>[] = [];
+    for await (const event of executor.executeStream(tool, { count: 2 })) seen.push(event);
+
+    expect(seen).toHaveLength(3);
+    expect(summary(events)).toEqual([
+      ['tool.start', { toolId: 'number-stream', input: { count: 2 }, expectedDuration: undefined }],
+      ['tool.stream.chunk', { toolId: 'number-stream', chunk: 0, index: 0 }],
+      ['tool.stream.chunk', { toolId: 'number-stream', chunk: 10, index: 1 }],
+      ['tool.complete', { toolId: 'number-stream', result: undefined, chunks: 2, duration: 0, cost: undefined }]
+    ]);
+  });
+});
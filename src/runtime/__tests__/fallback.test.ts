@@ -0,0 +1,190 @@
+import { invokeTool, createMemoryCache, Clock } from '../index';
+import { createTool, FallbackStrategy, ToolResponse } from '../../index';
+
+const clock: Clock = { now: () => 0, sleep: async () => {} };
+
+const unavailable: ToolResponse<string> = {
+  status: 'error',
+  error: { code: 'UNAVAILABLE', message: 'down', retryable: true, userMessage: 'Service is down' }
+};
+
+function makeTool(
+  id: string,
+  execute: (input: { q: string }) => Promise<ToolResponse<string>>,
+  fallbackBehavior?: FallbackStrategy
+) {
+  return createTool<{ q: string }, string>({
+    version: '1.0.0',
+    metadata: { id, name: id },
+    documentation: { description: `${id} tool`, examples: [], limitations: [] },
+    errors: {
+      possibleErrors: [{
+        code: 'UNAVAILABLE',
+        description: 'Upstream unavailable',
+        isRetryable: true,
+        suggestedUserMessage: 'Service is down'
+      }],
+      retryStrategies: [{ type: 'fixed-interval', maxAttempts: 2, initialDelay: 10 }],
+      fallbackBehavior
+    },
+    execution: { canBeCancelled: false, supportsProgress: false },
+    state: { persistsBetweenCalls: false },
+    execute: jest.fn(execute)
+  });
+}
+
+describe('invokeTool fallbacks', () => {
+  it('falls through to an alternative tool after retries are used up', async () => {
+    const backup = makeTool('backup', async ({ q }) => ({ status: 'success', data: `backup:${q}` }));
+    const primary = makeTool('primary', async () => unavailable, {
+      type: 'alternative-tool',
+      description: 'Use the backup provider',
+      toolId: 'backup'
+    });
+
+    const result = await invokeTool(primary, { q: 'x' }, { clock, tools: [backup] });
+
+    expect(primary.execute).toHaveBeenCalledTimes(2);
+    expect(result.response).toEqual({
+      status: 'success',
+      data: 'backup:x',
+      fallback: {
+        type: 'alternative-tool',
+        description: 'Use the backup provider',
+        toolId: 'backup',
+        cause: unavailable.error
+      }
+    });
+    expect(result.attempts.map(a => a.fallback)).toEqual([undefined, undefined, 'alternative-tool']);
+  });
+
+  it('returns the original error when the alternative tool is not registered', async () => {
+    const primary = makeTool('primary', async () => unavailable, {
+      type: 'alternative-tool',
+      description: 'Use the backup provider',
+      toolId: 'missing'
+    });
+
+    const result = await invokeTool(primary, { q: 'x' }, { clock, tools: [] });
+
+    expect(result.response).toBe(result.attempts[1].response);
+    expect(result.response.fallback).toBeUndefined();
+  });
+
+  it('re-runs the tool with degraded input', async () => {
+    const tool = makeTool(
+      'resizer',
+      async ({ q }) => (q === 'small' ? { status: 'success', data: 'small image' } : unavailable),
+      {
+        type: 'degraded-mode',
+        description: 'Lower resolution',
+        degradeInput: () => ({ q: 'small' })
+      }
+    );
+
+    const result = await invokeTool(tool, { q: 'large' }, { clock });
+
+    expect(result.response.data).toBe('small image');
+    expect(result.response.fallback?.type).toBe('degraded-mode');
+  });
+
+  it('serves the last successful result from the cache', async () => {
+    let up = true;
+    const tool = makeTool(
+      'weather',
+      async ({ q }) => (up ? { status: 'success', data: `sunny in ${q}` } : unavailable),
+      {
+        type: 'cache',
+        description: 'Serve stale weather',
+        cacheKey: ({ q }) => q
+      }
+    );
+    const cache = createMemoryCache();
+
+    await invokeTool(tool, { q: 'Paris' }, { clock, cache });
+    up = false;
+    const stale = await invokeTool(tool, { q: 'Paris' }, { clock, cache });
+    const miss = await invokeTool(tool, { q: 'Rome' }, { clock, cache });
+
+    expect(stale.response.data).toBe('sunny in Paris');
+    expect(stale.response.fallback?.type).toBe('cache');
+    expect(miss.response.status).toBe('error');
+  });
+
+  it('runs a custom handler with the triggering error', async () => {
+    const handler = jest.fn(async () => ({ status: 'success' as const, data: 'placeholder' }));
+    const tool = makeTool('custom', async () => unavailable, {
+      type: 'custom',
+      description: 'Return a placeholder',
+      handler
+    });
+
+    const result = await invokeTool(tool, { q: 'x' }, { clock });
+
+    expect(handler).toHaveBeenCalledWith({ q: 'x' }, unavailable.error);
+    expect(result.response.fallback?.cause).toEqual(unavailable.error);
+  });
+
+  it('keeps the original error when the fallback itself throws', async () => {
+    const broken: FallbackStrategy[] = [
+      {
+        type: 'degraded-mode',
+        description: 'Lower resolution',
+        degradeInput: () => {
+          throw new Error('cannot degrade');
+        }
+      },
+      {
+        type: 'cache',
+        description: 'Serve stale results',
+        cacheKey: () => {
+          throw new Error('bad key');
+        }
+      }
+    ];
+
+    for (const strategy of broken) {
+      const result = await invokeTool(makeTool('broken', async () => unavailable, strategy), { q: 'x' }, {
+        clock,
+        cache: createMemoryCache()
+      });
+      expect(result.response).toEqual(unavailable);
+    }
+  });
+
+  it('keeps the response when the cache backend fails', async () => {
+    let up = true;
+    const tool = makeTool(
+      'weather',
+      async ({ q }) => (up ? { status: 'success', data: `sunny in ${q}` } : unavailable),
+      { type: 'cache', description: 'Serve stale weather', cacheKey: ({ q }) => q }
+    );
+    const cache = {
+      get: async () => {
+        throw new Error('cache offline');
+      },
+      set: async () => {
+        throw new Error('cache offline');
+      }
+    };
+
+    expect((await invokeTool(tool, { q: 'Paris' }, { clock, cache })).response.data).toBe('sunny in Paris');
+    up = false;
+    expect((await invokeTool(tool, { q: 'Paris' }, { clock, cache })).response).toEqual(unavailable);
+  });
+
+  it('skips the fallback for error codes outside triggerOn', async () => {
+    const handler = jest.fn();
+    const tool = makeTool('custom', async () => unavailable, {
+      type: 'custom',
+      description: 'Only for quota errors',
+      triggerOn: ['QUOTA_EXCEEDED'],
+      handler
+    });
+
+    const result = await invokeTool(tool, { q: 'x' }, { clock });
+
+    expect(handler).not.toHaveBeenCalled();
+    expect(result.response.status).toBe('error');
+  });
+});
@@ -0,0 +1,250 @@
+import { invokeTool, Clock } from '../index';
+import { createTool, ToolResponse, RetryStrategy, s, INVALID_INPUT_CODE, INVALID_OUTPUT_CODE } from '../../index';
+
+// Clock that records sleeps instead of waiting
+function fakeClock() {
+  let time = 0;
+  const sleeps: number[] = [];
+  const clock: Clock = {
+    now: () => time,
+    sleep: async (ms) => {
+      sleeps.push(ms);
+      time += ms;
+    }
+  };
+  return { clock, sleeps };
+}
+
+function makeTool(
+  responses: Array<ToolResponse<string> | Error>,
+  retryStrategies: RetryStrategy[] = [{ type: 'exponential-backoff', maxAttempts: 3, initialDelay: 100 }]
+) {
+  const execute = jest.fn(async (_input: { q: string }): Promise<ToolResponse<string>> => {
+    const next = responses.shift();
+    if (next instanceof Error) throw next;
+    return next ?? { status: 'success', data: 'done' };
+  });
+
+  const tool = createTool<{ q: string }, string>({
+    version: '1.0.0',
+    metadata: { id: 'flaky', name: 'Flaky Tool' },
+    documentation: { description: 'Flaky tool for retry tests', examples: [], limitations: [] },
+    errors: {
+      possibleErrors: [
+        { code: 'RATE_LIMITED', description: 'Too many requests', isRetryable: true, suggestedUserMessage: 'Try again soon' },
+        { code: 'BAD_INPUT', description: 'Invalid input', isRetryable: false, suggestedUserMessage: 'Fix your input' }
+      ],
+      retryStrategies
+    },
+    execution: { canBeCancelled: false, supportsProgress: false },
+    state: { persistsBetweenCalls: false },
+    execute
+  });
+
+  return { tool, execute };
+}
+
+const rateLimited: ToolResponse<string> = {
+  status: 'error',
+  error: { code: 'RATE_LIMITED', message: '429', retryable: false, userMessage: '' }
+};
+
+describe('invokeTool', () => {
+  it('returns the first successful response without retrying', async () => {
+    const { tool, execute } = makeTool([{ status: 'success', data: 'ok' }]);
+    const { clock } = fakeClock();
+
+    const result = await invokeTool(tool, { q: 'x' }, { clock });
+
+    expect(result.response).toEqual({ status: 'success', data: 'ok' });
+    expect(result.attempts).toHaveLength(1);
+    expect(execute).toHaveBeenCalledTimes(1);
+  });
+
+  it('retries declared retryable errors with exponential backoff', async () => {
+    const { tool, execute } = makeTool([rateLimited, rateLimited]);
+    const { clock, sleeps } = fakeClock();
+
+    const result = await invokeTool(tool, { q: 'x' }, { clock, jitter: d => d });
+
+    expect(result.response.status).toBe('success');
+    expect(execute).toHaveBeenCalledTimes(3);
+    expect(sleeps).toEqual([100, 200]);
+    expect(result.attempts.map(a => a.delayBeforeNext)).toEqual([100, 200, undefined]);
+    expect(result.attempts[0].retryable).toBe(true);
+  });
+
+  it('stops after maxAttempts and returns the last error', async () => {
+    const { tool, execute } = makeTool([rateLimited, rateLimited, rateLimited, rateLimited]);
+    const { clock } = fakeClock();
+
+    const result = await invokeTool(tool, { q: 'x' }, { clock, jitter: d => d });
+
+    expect(execute).toHaveBeenCalledTimes(3);
+    expect(result.response.status).toBe('error');
+    expect(result.response.error?.code).toBe('RATE_LIMITED');
+  });
+
+  it('does not retry non-retryable errors', async () => {
+    const { tool, execute } = makeTool([{
+      status: 'error',
+      error: { code: 'BAD_INPUT', message: 'bad', retryable: true, userMessage: '' }
+    }]);
+    const { clock } = fakeClock();
+
+    const result = await invokeTool(tool, { q: 'x' }, { clock });
+
+    expect(execute).toHaveBeenCalledTimes(1);
+    expect(result.attempts[0].retryable).toBe(false);
+  });
+
+  it('classifies thrown errors by code', async () => {
+    const thrown = Object.assign(new Error('slow down'), { code: 'RATE_LIMITED' });
+    const { tool } = makeTool([thrown]);
+    const { clock } = fakeClock();
+
+    const result = await invokeTool(tool, { q: 'x' }, { clock, jitter: d => d });
+
+    expect(result.attempts).toHaveLength(2);
+    expect(result.attempts[0].response.error).toEqual(expect.objectContaining({
+      code: 'RATE_LIMITED',
+      retryable: true,
+      userMessage: 'Try again soon'
+    }));
+  });
+
+  it('turns unknown thrown errors into non-retryable error responses', async () => {
+    const { tool } = makeTool([new Error('boom')]);
+    const { clock } = fakeClock();
+
+    const result = await invokeTool(tool, { q: 'x' }, { clock });
+
+    expect(result.attempts).toHaveLength(1);
+    expect(result.response.error?.code).toBe('UNKNOWN_ERROR');
+  });
+
+  it('applies fixed-interval and custom strategies', async () => {
+    const fixed = makeTool([rateLimited, rateLimited], [{ type: 'fixed-interval', maxAttempts: 3, initialDelay: 50 }]);
+    const fixedClock = fakeClock();
+    await invokeTool(fixed.tool, { q: 'x' }, { clock: fixedClock.clock, jitter: d => d });
+    expect(fixedClock.sleeps).toEqual([50, 50]);
+
+    const custom = makeTool([rateLimited, rateLimited], [{
+      type: 'custom',
+      maxAttempts: 3,
+      computeDelay: attempt => attempt * 7
+    }]);
+    const customClock = fakeClock();
+    await invokeTool(custom.tool, { q: 'x' }, { clock: customClock.clock, jitter: d => d });
+    expect(customClock.sleeps).toEqual([7, 14]);
+  });
+
+  it('only uses strategies whose retryOn matches the error code', async () => {
+    const { tool, execute } = makeTool([rateLimited], [{
+      type: 'fixed-interval',
+      maxAttempts: 3,
+      retryOn: ['TIMEOUT']
+    }]);
+    const { clock } = fakeClock();
+
+    await invokeTool(tool, { q: 'x' }, { clock });
+
+    expect(execute).toHaveBeenCalledTimes(1);
+  });
+
+  it('passes computed delays through the jitter function', async () => {
+    const { tool } = makeTool([rateLimited]);
+    const { clock, sleeps } = fakeClock();
+
+    await invokeTool(tool, { q: 'x' }, { clock, jitter: (d, attempt) => d / 2 + attempt });
+
+    expect(sleeps).toEqual([51]);
+  });
+
+  it('works with jest fake timers and the system clock', async () => {
+    jest.useFakeTimers();
+    try {
+      const { tool, execute } = makeTool([rateLimited]);
+      const pending = invokeTool(tool, { q: 'x' }, { jitter: d => d });
+
+      await jest.advanceTimersByTimeAsync(100);
+      const result = await pending;
+
+      expect(execute).toHaveBeenCalledTimes(2);
+      expect(result.response.status).toBe('success');
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
+
+describe('invokeTool input validation', () => {
+  function makeSchemaTool() {
+    const execute = jest.fn(async (input: { count: number; label?: string }): Promise<ToolResponse<number>> =>
+      ({ status: 'success', data: input.count }));
+    const tool = createTool({
+      version: '1.0.0',
+      metadata: { id: 'counter', name: 'Counter' },
+      documentation: { description: 'Counts things', examples: [], limitations: [] },
+      errors: { possibleErrors: [], retryStrategies: [{ type: 'fixed-interval', maxAttempts: 3 }] },
+      execution: { canBeCancelled: false, supportsProgress: false },
+      state: { persistsBetweenCalls: false },
+      input: { count: s.integer(), label: s.optional(s.string()) },
+      output: s.number(),
+      execute
+    });
+    return { tool, execute };
+  }
+
+  it('passes coerced arguments to execute', async () => {
+    const { tool, execute } = makeSchemaTool();
+
+    const result = await invokeTool(tool, { count: '7' } as any);
+
+    expect(result.response).toEqual({ status: 'success', data: 7 });
+    expect(execute.mock.calls[0][0]).toEqual({ count: 7 });
+  });
+
+  it('returns a structured error without running execute', async () => {
+    const { tool, execute } = makeSchemaTool();
+
+    const result = await invokeTool(tool, { label: true } as any);
+
+    expect(execute).not.toHaveBeenCalled();
+    expect(result.attempts).toEqual([]);
+    expect(result.response.status).toBe('error');
+    expect(result.response.error).toMatchObject({
+      code: INVALID_INPUT_CODE,
+      retryable: false,
+      details: {
+        errors: [
+          { path: ['count'], code: 'MISSING_REQUIRED' },
+          { path: ['label'], code: 'INVALID_TYPE' }
+        ]
+      }
+    });
+  });
+
+  it('checks success data against the output schema', async () => {
+    const { tool, execute } = makeSchemaTool();
+    execute.mockResolvedValue({ status: 'success', data: 'seven' as any });
+
+    const result = await invokeTool(tool, { count: 7 });
+
+    expect(result.attempts).toHaveLength(1);
+    expect(result.response.error).toMatchObject({
+      code: INVALID_OUTPUT_CODE,
+      retryable: false,
+      details: { errors: [{ path: [], code: 'INVALID_TYPE' }] }
+    });
+  });
+
+  it('skips output checks when disabled', async () => {
+    const { tool, execute } = makeSchemaTool();
+    execute.mockResolvedValue({ status: 'success', data: 'seven' as any });
+
+    const result = await invokeTool(tool, { count: 7 }, { checkOutput: false });
+
+    expect(result.response).toEqual({ status: 'success', data: 'seven' });
+  });
+});
@@ -0,0 +1,131 @@
+import { startTool, invokeTool, INVALID_PROGRESS_CODE, ProgressUpdate, Clock } from '../index';
+import { createTool, ExecutionContext, ProgressInfo, ToolResponse } from '../../index';
+
+const clock: Clock = { now: () => 0, sleep: async () => {} };
+
+function makeTool(
+  supportsProgress: boolean,
+  execute: (input: { q: string }, context: ExecutionContext) => Promise<ToolResponse<string>>
+) {
+  return createTool<{ q: string }, string>({
+    version: '1.0.0',
+    metadata: { id: 'render', name: 'Renderer' },
+    documentation: { description: 'Renderer for progress tests', examples: [], limitations: [] },
+    errors: { possibleErrors: [], retryStrategies: [] },
+    execution: { canBeCancelled: true, supportsProgress },
+    state: { persistsBetweenCalls: false },
+    execute
+  });
+}
+
+function reporting(steps: ProgressInfo[]) {
+  return async (_input: { q: string }, { reportProgress }: ExecutionContext): Promise<ToolResponse<string>> => {
+    steps.forEach(step => reportProgress(step));
+    return { status: 'success', data: 'rendered' };
+  };
+}
+
+describe('progress reporting', () => {
+  it('delivers progress to subscribers as pending responses', async () => {
+    const tool = makeTool(true, reporting([
+      { percentage: 10, message: 'Loading' },
+      { percentage: 60, message: 'Rendering', eta: 4 },
+      { percentage: 100 }
+    ]));
+    const updates: ProgressUpdate[] = [];
+
+    const { response } = await invokeTool(tool, { q: 'x' }, { clock, onProgress: u => updates.push(u) });
+
+    expect(response.status).toBe('success');
+    expect(updates).toEqual([
+      { status: 'pending', progress: { percentage: 10, message: 'Loading' } },
+      { status: 'pending', progress: { percentage: 60, message: 'Rendering', eta: 4 } },
+      { status: 'pending', progress: { percentage: 100 } }
+    ]);
+  });
+
+  it('lets callers subscribe and unsubscribe on the handle', async () => {
+    let report: ((p: ProgressInfo) => void) | undefined;
+    let finish: (() => void) | undefined;
+    const tool = makeTool(true, (_input, context) => {
+      report = context.reportProgress;
+      return new Promise(resolve => {
+        finish = () => resolve({ status: 'success', data: 'done' });
+      });
+    });
+
+    const invocation = startTool(tool, { q: 'x' }, { clock });
+    const seen: number[] = [];
+    const unsubscribe = invocation.onProgress(u => seen.push(u.progress.percentage));
+    await new Promise(resolve => setImmediate(resolve));
+
+    report!({ percentage: 20 });
+    unsubscribe();
+    report!({ percentage: 40 });
+    finish!();
+    await invocation.result;
+
+    expect(seen).toEqual([20]);
+  });
+
+  it('keeps listener errors away from the tool', async () => {
+    const tool = makeTool(true, reporting([{ percentage: 50 }, { percentage: 100 }]));
+    const seen: number[] = [];
+
+    const invocation = startTool(tool, { q: 'x' }, {
+      clock,
+      onProgress: () => {
+        throw new Error('listener broke');
+      }
+    });
+    invocation.onProgress(u => seen.push(u.progress.percentage));
+    const { response } = await invocation.result;
+
+    expect(response).toEqual({ status: 'success', data: 'rendered' });
+    expect(seen).toEqual([50, 100]);
+  });
+
+  it('rejects progress from tools that declare supportsProgress: false', async () => {
+    const tool = makeTool(false, reporting([{ percentage: 50 }]));
+    const listener = jest.fn();
+
+    const { response } = await invokeTool(tool, { q: 'x' }, { clock, onProgress: listener });
+
+    expect(listener).not.toHaveBeenCalled();
+    expect(response.error?.code).toBe(INVALID_PROGRESS_CODE);
+  });
+
+  it('rejects percentages outside 0-100', async () => {
+    const { response } = await invokeTool(makeTool(true, reporting([{ percentage: 120 }])), { q: 'x' }, { clock });
+
+    expect(response.status).toBe('error');
+    expect(response.error?.message).toMatch('between 0 and 100');
+  });
+
+  it('rejects progress that goes backwards', async () => {
+    const listener = jest.fn();
+    const tool = makeTool(true, reporting([{ percentage: 50 }, { percentage: 30 }]));
+
+    const { response } = await invokeTool(tool, { q: 'x' }, { clock, onProgress: listener });
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(response.error?.code).toBe(INVALID_PROGRESS_CODE);
+  });
+
+  it('drops progress reported after cancellation', async () => {
+    let report: ((p: ProgressInfo) => void) | undefined;
+    const tool = makeTool(true, (_input, context) => {
+      report = context.reportProgress;
+      return new Promise(() => {});
+    });
+    const listener = jest.fn();
+
+    const invocation = startTool(tool, { q: 'x' }, { clock, onProgress: listener });
+    await new Promise(resolve => setImmediate(resolve));
+    invocation.cancel();
+    report!({ percentage: 90 });
+    await invocation.result;
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,179 @@
+import { ToolScheduler, QueueTimeoutError, QUEUE_TIMEOUT_CODE } from '../index';
+import { createTool, ToolResponse } from '../../index';
+
+// Tool whose calls stay running until released by the test
+function makeTool(parallelExecutionLimit?: number) {
+  const started: string[] = [];
+  const releases: Array<() => void> = [];
+  const tool = createTool<{ id: string }, string>({
+    version: '1.0.0',
+    metadata: { id: 'image-generator', name: 'Image Generator' },
+    documentation: { description: 'Generates images', examples: [], limitations: [] },
+    errors: { possibleErrors: [], retryStrategies: [] },
+    execution: { canBeCancelled: true, supportsProgress: false, parallelExecutionLimit },
+    state: { persistsBetweenCalls: false },
+    execute: ({ id }) => {
+      started.push(id);
+      return new Promise<ToolResponse<string>>(resolve => {
+        releases.push(() => resolve({ status: 'success', data: id }));
+      });
+    }
+  });
+  const releaseNext = async () => {
+    releases.shift()!();
+    await new Promise(resolve => setImmediate(resolve));
+  };
+  return { tool, started, releaseNext };
+}
+
+const tick = () => new Promise(resolve => setImmediate(resolve));
+
+describe('ToolScheduler', () => {
+  it('runs at most parallelExecutionLimit invocations at once', async () => {
+    const { tool, started, releaseNext } = makeTool(2);
+    const scheduler = new ToolScheduler();
+
+    const results = ['a', 'b', 'c', 'd'].map(id => scheduler.schedule(tool, { id }));
+    await tick();
+    expect(started).toEqual(['a', 'b']);
+    expect(scheduler.stats('image-generator')).toEqual(expect.objectContaining({ running: 2, queued: 2 }));
+
+    await releaseNext();
+    expect(started).toEqual(['a', 'b', 'c']);
+
+    await releaseNext();
+    await releaseNext();
+    await releaseNext();
+    expect((await Promise.all(results)).map(r => r.response.data)).toEqual(['a', 'b', 'c', 'd']);
+    expect(scheduler.stats('image-generator')).toEqual(expect.objectContaining({ running: 0, queued: 0 }));
+  });
+
+  it('does not limit tools without a declared limit', async () => {
+    const { tool, started } = makeTool();
+    const scheduler = new ToolScheduler();
+
+    ['a', 'b', 'c'].forEach(id => scheduler.schedule(tool, { id }));
+    await tick();
+
+    expect(started).toEqual(['a', 'b', 'c']);
+  });
+
+  it('runs higher priorities first in priority mode', async () => {
+    const { tool, started, releaseNext } = makeTool(1);
+    const scheduler = new ToolScheduler({ queueing: 'priority' });
+
+    scheduler.schedule(tool, { id: 'first' });
+    scheduler.schedule(tool, { id: 'low' }, { priority: 1 });
+    scheduler.schedule(tool, { id: 'high' }, { priority: 5 });
+    scheduler.schedule(tool, { id: 'high-2' }, { priority: 5 });
+    await tick();
+
+    for (let i = 0; i < 3; i++) await releaseNext();
+    expect(started).toEqual(['first', 'high', 'high-2', 'low']);
+  });
+
+  it('ignores priorities in fifo mode', async () => {
+    const { tool, started, releaseNext } = makeTool(1);
+    const scheduler = new ToolScheduler();
+
+    scheduler.schedule(tool, { id: 'first' });
+    scheduler.schedule(tool, { id: 'low' }, { priority: 1 });
+    scheduler.schedule(tool, { id: 'high' }, { priority: 5 });
+    await tick();
+
+    for (let i = 0; i < 2; i++) await releaseNext();
+    expect(started).toEqual(['first', 'low', 'high']);
+  });
+
+  it('reports how long each invocation waited', async () => {
+    let time = 0;
+    const clock = { now: () => time, sleep: async () => {} };
+    const { tool, releaseNext } = makeTool(1);
+    const scheduler = new ToolScheduler({ clock });
+
+    const first = scheduler.schedule(tool, { id: 'a' });
+    const second = scheduler.schedule(tool, { id: 'b' });
+    await tick();
+    time = 250;
+    expect(scheduler.stats('image-generator').oldestWait).toBe(250);
+
+    await releaseNext();
+    await releaseNext();
+
+    expect((await first).waitTime).toBe(0);
+    expect((await second).waitTime).toBe(250);
+    expect(scheduler.stats('image-generator').averageWait).toBe(125);
+  });
+
+  describe('queue timeouts', () => {
+    beforeEach(() => jest.useFakeTimers());
+    afterEach(() => jest.useRealTimers());
+
+    it('rejects with a QueueTimeoutError', async () => {
+      const { tool, started } = makeTool(1);
+      const scheduler = new ToolScheduler({ queueTimeout: 1000 });
+
+      scheduler.schedule(tool, { id: 'a' });
+      const queued = scheduler.schedule(tool, { id: 'b' });
+      const rejection = expect(queued).rejects.toEqual(expect.objectContaining({
+        code: QUEUE_TIMEOUT_CODE,
+        retryable: true,
+        toolId: 'image-generator'
+      }));
+      await jest.advanceTimersByTimeAsync(1000);
+      await rejection;
+
+      await expect(queued).rejects.toBeInstanceOf(QueueTimeoutError);
+      expect(started).toEqual(['a']);
+      expect(scheduler.stats('image-generator').queued).toBe(0);
+    });
+
+    it('clears the timeout once the call gets a slot', async () => {
+      jest.useFakeTimers({ doNotFake: ['setImmediate'] });
+      const { tool, releaseNext } = makeTool(1);
+      const scheduler = new ToolScheduler({ queueTimeout: 20000 });
+
+      const first = scheduler.schedule(tool, { id: 'a' });
+      const second = scheduler.schedule(tool, { id: 'b' });
+      await tick();
+      expect(jest.getTimerCount()).toBe(1);
+
+      await releaseNext();
+      expect(jest.getTimerCount()).toBe(0);
+      await releaseNext();
+      expect((await Promise.all([first, second])).map(r => r.response.data)).toEqual(['a', 'b']);
+    });
+
+    it('times out on the scheduler clock', async () => {
+      let time = 0;
+      const clock = {
+        now: () => time,
+        sleep: async (ms: number) => {
+          time += ms;
+        }
+      };
+      const { tool, started } = makeTool(1);
+      const scheduler = new ToolScheduler({ clock });
+
+      scheduler.schedule(tool, { id: 'a' });
+      await expect(scheduler.schedule(tool, { id: 'b' }, { queueTimeout: 500 })).rejects.toMatchObject({
+        code: QUEUE_TIMEOUT_CODE,
+        waited: 500
+      });
+      expect(started).toEqual(['a']);
+    });
+  });
+
+  it('cancels queued invocations through their signal', async () => {
+    const { tool, started } = makeTool(1);
+    const scheduler = new ToolScheduler();
+    const controller = new AbortController();
+
+    scheduler.schedule(tool, { id: 'a' });
+    const queued = scheduler.schedule(tool, { id: 'b' }, { signal: controller.signal });
+    controller.abort();
+
+    expect((await queued).response.status).toBe('cancelled');
+    expect(started).toEqual(['a']);
+  });
+});
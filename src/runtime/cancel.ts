@@ -0,0 +1,42 @@
+import { ToolError, ToolResponse } from '../index';
+
+export const CANCELLED_CODE = 'CANCELLED';
+
+export function cancelledResponse<T>(signal: AbortSignal): ToolResponse<T> {
+  const reason = signal.reason instanceof Error ? signal.reason.message : signal.reason;
+  const error: ToolError = {
+    code: CANCELLED_CODE,
+    message: typeof reason === 'string' && reason ? reason : 'Tool execution was cancelled',
+    retryable: false,
+    userMessage: 'The operation was cancelled'
+  };
+  return { status: 'cancelled', error };
+}
+
+/**
+ * Settle with `onAbort()` as soon as the signal aborts, even if the
+ * wrapped promise never does. Tools are expected to stop on their own
+ * when they see the signal; this keeps callers from waiting on ones that don't.
+ */
+export function raceAbort<T>(
+  promise: Promise<T>,
+  signal: AbortSignal,
+  onAbort: () => T
+): Promise<T> {
+  if (signal.aborted) return Promise.resolve(onAbort());
+
+  return new Promise<T>((resolve, reject) => {
+    const abort = () => resolve(onAbort());
+    signal.addEventListener('abort', abort, { once: true });
+    promise.then(
+      value => {
+        signal.removeEventListener('abort', abort);
+        resolve(value);
+      },
+      error => {
+        signal.removeEventListener('abort', abort);
+        reject(error);
+      }
+    );
+  });
+}
@@ -0,0 +1,174 @@
+import { Duration, ExecutableTool, ModernTool, ToolError, ToolMetadata } from '../index';
+import { EventBus } from '../events';
+import { StreamEvent, StreamingTool, StreamOptions } from '../streaming';
+import { InvocationResult, InvokeOptions, ToolInvocation } from './types';
+import { classifyError, systemClock, toToolError } from './retry';
+import { startTool } from './index';
+
+const UNIT_MS: Record<Duration['unit'], number> = {
+  ms: 1,
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000
+};
+
+export function durationToMs(value: number, unit: Duration['unit']): number {
+  return value * UNIT_MS[unit];
+}
+
+// Estimated cost of an invocation; per-call tools are billed per attempt
+export function estimateCost(tool: ModernTool, attempts: number): number | undefined {
+  const cost = tool.documentation.costImplications;
+  if (!cost) return undefined;
+  return cost.billingModel === 'per-call'
+    ? cost.estimatedCostPerCall * Math.max(1, attempts)
+    : cost.estimatedCostPerCall;
+}
+
+/**
+ * Runs tools and reports their lifecycle on an EventBus: tool.start,
+ * tool.progress, then one of tool.complete, tool.error or tool.cancel.
+ * Streaming tools additionally emit tool.stream.chunk per data chunk.
+ */
+export class ToolExecutor {
+  constructor(
+    private readonly events: EventBus,
+    private readonly defaults: InvokeOptions = {}
+  ) {}
+
+  executeTool<TInput, TOutput>(
+    tool: ExecutableTool<TInput, TOutput>,
+    input: TInput,
+    opts: InvokeOptions = {}
+  ): Promise<InvocationResult<TOutput>> {
+    return this.startTool(tool, input, opts).result;
+  }
+
+  // Like executeTool, but returns a handle so callers can cancel
+  startTool<TInput, TOutput>(
+    tool: ExecutableTool<TInput, TOutput>,
+    input: TInput,
+    opts: InvokeOptions = {}
+  ): ToolInvocation<TOutput> {
+    const options = { ...this.defaults, ...opts };
+    const clock = options.clock ?? systemClock;
+    const toolId = tool.metadata.id;
+
+    this.emitStart(tool, input);
+    const startedAt = clock.now();
+
+    const invocation = startTool(tool, input, options);
+    invocation.onProgress(({ progress }) => {
+      this.events.emit('tool.progress', {
+        toolId,
+        progress: progress.percentage,
+        message: progress.message,
+        eta: progress.eta
+      });
+    });
+
+    const result = invocation.result.then(result => {
+      const { response, attempts } = result;
+      const duration = clock.now() - startedAt;
+
+      if (response.status === 'success') {
+        this.events.emit('tool.complete', {
+          toolId,
+          result: response.data,
+          duration,
+          cost: estimateCost(tool, attempts.filter(a => !a.fallback).length)
+        });
+      } else if (response.status === 'cancelled') {
+        this.events.emit('tool.cancel', { toolId, reason: response.error?.message });
+      } else {
+        // A final 'pending', or an error response that lost its error
+        this.emitError(tool, response.error ?? toToolError(
+          new Error(`Tool ended with a ${response.status} response and no result`),
+          tool.errors
+        ));
+      }
+      return result;
+    });
+
+    return { ...invocation, result };
+  }
+
+  /**
+   * Consume a streaming tool while emitting its lifecycle events.
+   * Data chunks are forwarded as tool.stream.chunk and not kept, so
+   * tool.complete only reports how many there were.
+   */
+  async *executeStream<TInput, TOutput>(
+    tool: StreamingTool<TInput, TOutput>,
+    input: TInput,
+    options?: StreamOptions
+  ): AsyncGenerator<StreamEvent<TOutput>> {
+    const clock = this.defaults.clock ?? systemClock;
+    const toolId = tool.metadata.id;
+    let chunks = 0;
+    let ended = false;
+
+    this.emitStart(tool, input);
+    const startedAt = clock.now();
+
+    try {
+      for await (const event of tool.executeStream(input, options)) {
+        switch (event.type) {
+          case 'data':
+            this.events.emit('tool.stream.chunk', { toolId, chunk: event.chunk, index: chunks++ });
+            break;
+          case 'progress':
+            this.events.emit('tool.progress', {
+              toolId,
+              progress: event.progress.percentage,
+              message: event.progress.message,
+              eta: event.progress.eta
+            });
+            break;
+          case 'error':
+            ended = true;
+            this.emitError(tool, event.error);
+            break;
+          case 'cancel':
+            ended = true;
+            this.events.emit('tool.cancel', { toolId });
+            break;
+          case 'end':
+            ended = true;
+            this.events.emit('tool.complete', {
+              toolId,
+              result: undefined,
+              chunks,
+              duration: clock.now() - startedAt,
+              cost: estimateCost(tool, 1)
+            });
+            break;
+        }
+        yield event;
+      }
+    } finally {
+      if (!ended) {
+        this.events.emit('tool.cancel', { toolId, reason: 'Consumer stopped reading the stream' });
+      }
+    }
+  }
+
+  private emitStart(tool: ModernTool & { metadata: ToolMetadata }, input: unknown) {
+    const estimate = tool.execution.estimatedDuration;
+    this.events.emit('tool.start', {
+      toolId: tool.metadata.id,
+      input,
+      expectedDuration: estimate ? durationToMs(estimate.max, estimate.unit) : undefined
+    });
+  }
+
+  private emitError(tool: ModernTool & { metadata: ToolMetadata }, error: ToolError) {
+    const { declared, retryable } = classifyError(tool.errors, error);
+    this.events.emit('tool.error', {
+      toolId: tool.metadata.id,
+      error,
+      canRetry: retryable,
+      suggestedAction: declared?.suggestedUserMessage ?? error.userMessage
+    });
+  }
+}
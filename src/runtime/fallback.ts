@@ -0,0 +1,79 @@
+import { ExecutableTool, FallbackStrategy, ToolError, ToolResponse } from '../index';
+import { InvocationResult, InvokeOptions, ResultCache } from './types';
+import { toToolError } from './retry';
+
+// Runs a tool with retries but without falling back again
+type Runner = (
+  tool: ExecutableTool<any, any>,
+  input: unknown
+) => Promise<InvocationResult<any>>;
+
+export function createMemoryCache(): ResultCache {
+  const entries = new Map<string, ToolResponse>();
+  return {
+    get: (key) => entries.get(key),
+    set: (key, response) => {
+      entries.set(key, response);
+    }
+  };
+}
+
+export function shouldFallback(strategy: FallbackStrategy, error: ToolError): boolean {
+  return !strategy.triggerOn || strategy.triggerOn.includes(error.code);
+}
+
+// Remember successful results so a later 'cache' fallback can serve them.
+// Best effort: a failing cacheKey or cache keeps the response as it is.
+export async function rememberResult(
+  tool: ExecutableTool<any, any>,
+  input: unknown,
+  response: ToolResponse,
+  opts: InvokeOptions
+): Promise<void> {
+  const strategy = tool.errors.fallbackBehavior;
+  if (strategy?.type !== 'cache' || !strategy.cacheKey || !opts.cache) return;
+  try {
+    await opts.cache.set(strategy.cacheKey(input), response);
+  } catch {
+    // The call itself succeeded; a missed cache entry only costs a later fallback
+  }
+}
+
+/**
+ * Produce a response from the tool's fallbackBehavior after its own
+ * attempts failed with `cause`. Resolves to undefined when the
+ * strategy has no usable target (no tool, no cache entry, ...), and to
+ * an error response when the strategy itself throws (degradeInput,
+ * cacheKey, the cache, a custom handler).
+ */
+export async function runFallback(
+  tool: ExecutableTool<any, any>,
+  input: unknown,
+  cause: ToolError,
+  opts: InvokeOptions,
+  run: Runner
+): Promise<InvocationResult | undefined> {
+  const strategy = tool.errors.fallbackBehavior;
+  if (!strategy || !shouldFallback(strategy, cause)) return undefined;
+
+  try {
+    switch (strategy.type) {
+      case 'alternative-tool': {
+        const alternative = opts.tools?.find(t => t.metadata.id === strategy.toolId);
+        return alternative ? await run(alternative, input) : undefined;
+      }
+      case 'degraded-mode':
+        return strategy.degradeInput ? await run(tool, strategy.degradeInput(input)) : undefined;
+      case 'cache': {
+        if (!strategy.cacheKey || !opts.cache) return undefined;
+        const cached = await opts.cache.get(strategy.cacheKey(input));
+        return cached ? { response: cached, attempts: [] } : undefined;
+      }
+      case 'custom':
+        if (!strategy.handler) return undefined;
+        return { response: await strategy.handler(input, cause), attempts: [] };
+    }
+  } catch (e) {
+    return { response: { status: 'error', error: toToolError(e) }, attempts: [] };
+  }
+}
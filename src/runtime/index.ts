@@ -0,0 +1,253 @@
+import { ExecutableTool, ProgressInfo, ToolResponse } from '../index';
+import { AttemptRecord, InvocationResult, InvokeOptions, ToolInvocation } from './types';
+import {
+  systemClock,
+  defaultJitter,
+  toToolError,
+  classifyError,
+  selectRetryStrategy,
+  computeRetryDelay
+} from './retry';
+import { rememberResult, runFallback } from './fallback';
+import { cancelledResponse, raceAbort } from './cancel';
+import { createProgressReporter, ProgressListener } from './progress';
+import { invalidInputError, invalidOutputError, outputChecksEnabled, parseInput, parseValue } from '../schema';
+
+export * from './types';
+export {
+  systemClock,
+  defaultJitter,
+  toToolError,
+  classifyError,
+  selectRetryStrategy,
+  computeRetryDelay
+} from './retry';
+export { createMemoryCache, shouldFallback } from './fallback';
+export { CANCELLED_CODE, cancelledResponse } from './cancel';
+export * from './progress';
+export { ToolExecutor, durationToMs, estimateCost } from './executor';
+export * from './scheduler';
+
+// Routes progress from execute to whoever subscribed on the invocation
+type ProgressSink = (progress: ProgressInfo, attempt: number) => void;
+
+/**
+ * Start a tool and return a handle that can cancel it. Cancelling
+ * aborts the signal passed to execute, stops further retries and
+ * settles the result with a 'cancelled' response. Tools declaring
+ * canBeCancelled: false refuse: cancel() returns false and they run
+ * to completion.
+ */
+export function startTool<TInput, TOutput>(
+  tool: ExecutableTool<TInput, TOutput>,
+  input: TInput,
+  opts: InvokeOptions = {}
+): ToolInvocation<TOutput> {
+  const controller = new AbortController();
+  const cancellable = tool.execution.canBeCancelled;
+  const listeners = new Set<ProgressListener<TOutput>>();
+  let settled = false;
+
+  if (opts.onProgress) listeners.add(opts.onProgress);
+  const sink: ProgressSink = (progress, attempt) => {
+    if (settled || controller.signal.aborted) return;
+    listeners.forEach(listener => {
+      try {
+        listener({ status: 'pending', progress }, attempt);
+      } catch {
+        // A broken subscriber must not fail the tool's reportProgress call
+      }
+    });
+  };
+
+  const external = cancellable ? opts.signal : undefined;
+  const onAbort = () => controller.abort(external?.reason);
+  if (external?.aborted) {
+    controller.abort(external.reason);
+  } else {
+    external?.addEventListener('abort', onAbort, { once: true });
+  }
+
+  const result = runInvocation(tool, input, opts, controller.signal, sink).finally(() => {
+    settled = true;
+    // Long-lived signals shared across calls would otherwise collect listeners
+    external?.removeEventListener('abort', onAbort);
+  });
+
+  return {
+    result,
+    cancellable,
+    cancel(reason?: string) {
+      if (!cancellable || settled || controller.signal.aborted) return false;
+      controller.abort(reason);
+      return true;
+    },
+    onProgress(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    }
+  };
+}
+
+/**
+ * Run a tool, retrying failed attempts according to its declared
+ * errors.retryStrategies. Errors are classified against
+ * errors.possibleErrors; only retryable ones are retried.
+ * Once retries are used up, errors.fallbackBehavior gets a chance
+ * to produce the data; the response then records which fallback did.
+ * Tools that declare `input` get their arguments validated and coerced
+ * first; invalid arguments return an INVALID_INPUT error. Outside
+ * production, success data is checked against a declared `output`
+ * and mismatches return an INVALID_OUTPUT error.
+ * Never throws: thrown errors are turned into error responses, with an
+ * error frame of the current state when a session is passed and the
+ * error maps to a frame error code. Use startTool instead to get a cancellable handle.
+ */
+export function invokeTool<TInput, TOutput>(
+  tool: ExecutableTool<TInput, TOutput>,
+  input: TInput,
+  opts: InvokeOptions = {}
+): Promise<InvocationResult<TOutput>> {
+  return startTool(tool, input, opts).result;
+}
+
+async function runInvocation<TInput, TOutput>(
+  tool: ExecutableTool<TInput, TOutput>,
+  input: TInput,
+  opts: InvokeOptions,
+  signal: AbortSignal,
+  sink: ProgressSink
+): Promise<InvocationResult<TOutput>> {
+  // Bad arguments fail fast: no attempts, retries or fallbacks
+  if (tool.input) {
+    const parsed = parseInput<TInput>(tool.input, input);
+    if (!parsed.success) {
+      return { response: { status: 'error', error: invalidInputError(parsed.errors) }, attempts: [] };
+    }
+    input = parsed.value;
+  }
+
+  const result = await runWithRetries(tool, input, opts, signal, sink);
+  const { response } = result;
+
+  if (response.status === 'success') {
+    // A broken contract is a bug in the tool; don't cache it or mask it with a fallback
+    if (tool.output && (opts.checkOutput ?? outputChecksEnabled())) {
+      const checked = parseValue(tool.output, response.data, { coerce: false });
+      if (!checked.success) {
+        return { response: { status: 'error', error: invalidOutputError(checked.errors) }, attempts: result.attempts };
+      }
+    }
+    await rememberResult(tool, input, response, opts);
+    return result;
+  }
+  if (response.status !== 'error' || !response.error) {
+    return result;
+  }
+
+  const strategy = tool.errors.fallbackBehavior;
+  const fallback = await runFallback(
+    tool,
+    input,
+    response.error,
+    opts,
+    // Alternative tools retry by their own declared strategies
+    (target, targetInput) => runWithRetries(
+      target,
+      targetInput,
+      target === tool ? opts : { ...opts, retryStrategies: undefined },
+      signal,
+      sink
+    )
+  );
+  if (!strategy || !fallback) {
+    return result;
+  }
+
+  const attempts = [
+    ...result.attempts,
+    ...fallback.attempts.map(a => ({ ...a, fallback: strategy.type }))
+  ] as AttemptRecord<TOutput>[];
+
+  if (fallback.response.status === 'error') {
+    return { response, attempts };
+  }
+
+  return {
+    response: {
+      ...(fallback.response as ToolResponse<TOutput>),
+      fallback: {
+        type: strategy.type,
+        description: strategy.description,
+        toolId: strategy.type === 'alternative-tool' ? strategy.toolId : undefined,
+        cause: response.error
+      }
+    },
+    attempts
+  };
+}
+
+async function runWithRetries<TInput, TOutput>(
+  tool: ExecutableTool<TInput, TOutput>,
+  input: TInput,
+  opts: InvokeOptions,
+  signal: AbortSignal,
+  sink: ProgressSink
+): Promise<InvocationResult<TOutput>> {
+  const clock = opts.clock ?? systemClock;
+  const jitter = opts.jitter ?? defaultJitter;
+  const strategies = opts.retryStrategies ?? tool.errors.retryStrategies ?? [];
+  const attempts: AttemptRecord<TOutput>[] = [];
+
+  const cancelled = () => cancelledResponse<TOutput>(signal);
+
+  for (let attempt = 1; ; attempt++) {
+    const startedAt = clock.now();
+    const reportProgress = createProgressReporter(
+      tool.execution.supportsProgress,
+      progress => sink(progress, attempt)
+    );
+    let response: ToolResponse<TOutput>;
+    try {
+      response = await raceAbort(
+        Promise.resolve().then(() => tool.execute(input, { signal, attempt, reportProgress, session: opts.session })),
+        signal,
+        cancelled
+      );
+    } catch (e) {
+      response = signal.aborted
+        ? cancelled()
+        : { status: 'error', error: toToolError(opts.session?.toFrameError(e) ?? e, tool.errors) };
+    }
+
+    const record: AttemptRecord<TOutput> = {
+      attempt,
+      startedAt,
+      finishedAt: clock.now(),
+      response,
+      retryable: false
+    };
+    attempts.push(record);
+
+    if (response.status !== 'error' || !response.error) {
+      return { response, attempts };
+    }
+
+    const { retryable } = classifyError(tool.errors, response.error);
+    record.retryable = retryable;
+
+    const strategy = retryable ? selectRetryStrategy(strategies, response.error) : undefined;
+    if (!strategy || attempt >= strategy.maxAttempts) {
+      return { response, attempts };
+    }
+
+    const delay = Math.max(0, jitter(computeRetryDelay(strategy, attempt), attempt));
+    record.delayBeforeNext = delay;
+    const interrupted = await raceAbort(clock.sleep(delay).then(() => false), signal, () => true);
+    if (interrupted) {
+      return { response: cancelled(), attempts };
+    }
+  }
+}
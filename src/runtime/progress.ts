@@ -0,0 +1,44 @@
+import { ProgressInfo, ToolResponse } from '../index';
+
+export const INVALID_PROGRESS_CODE = 'INVALID_PROGRESS';
+
+// A 'pending' response carrying the latest progress, as seen by subscribers
+export type ProgressUpdate<T = unknown> = ToolResponse<T> & {
+  status: 'pending';
+  progress: ProgressInfo;
+};
+
+export type ProgressListener<T = unknown> = (update: ProgressUpdate<T>, attempt: number) => void;
+
+function invalidProgress(message: string): Error {
+  return Object.assign(new Error(message), { code: INVALID_PROGRESS_CODE });
+}
+
+/**
+ * Build the reportProgress function handed to one attempt of a tool.
+ * Throws when the tool did not declare supportsProgress, or when a
+ * percentage is outside 0-100 or lower than the previous one.
+ */
+export function createProgressReporter(
+  supportsProgress: boolean,
+  emit: (progress: ProgressInfo) => void
+): (progress: ProgressInfo) => void {
+  let last = 0;
+
+  return (progress) => {
+    if (!supportsProgress) {
+      throw invalidProgress('Tool reported progress but declares supportsProgress: false');
+    }
+
+    const { percentage } = progress;
+    if (typeof percentage !== 'number' || !(percentage >= 0 && percentage <= 100)) {
+      throw invalidProgress(`Progress percentage must be between 0 and 100, got ${percentage}`);
+    }
+    if (percentage < last) {
+      throw invalidProgress(`Progress must not go backwards (${last} -> ${percentage})`);
+    }
+
+    last = percentage;
+    emit({ ...progress });
+  };
+}
@@ -0,0 +1,88 @@
+import { ErrorConfig, ErrorType, RetryStrategy, ToolError } from '../index';
+import { Clock, JitterFn } from './types';
+
+export const DEFAULT_INITIAL_DELAY = 1000;
+
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  sleep: (ms) => new Promise(resolve => setTimeout(resolve, ms)),
+  setTimer: (ms, callback) => {
+    const timer = setTimeout(callback, ms);
+    return () => clearTimeout(timer);
+  }
+};
+
+// Spread retries between 50% and 100% of the computed delay
+export const defaultJitter: JitterFn = (delay) => delay * (0.5 + Math.random() / 2);
+
+export function isToolError(value: unknown): value is ToolError {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as ToolError).code === 'string' &&
+    typeof (value as ToolError).message === 'string'
+  );
+}
+
+/**
+ * Normalize anything thrown by a tool into a ToolError.
+ * Errors carrying a string `code` keep it so they can be matched
+ * against the tool's declared possibleErrors, which also supply
+ * the retryable flag and user message.
+ */
+export function toToolError(error: unknown, errors?: ErrorConfig): ToolError {
+  if (isToolError(error) && typeof error.retryable === 'boolean') {
+    return error;
+  }
+
+  const code = typeof (error as { code?: unknown })?.code === 'string'
+    ? (error as { code: string }).code
+    : 'UNKNOWN_ERROR';
+  const declared = errors?.possibleErrors.find(e => e.code === code);
+
+  return {
+    code,
+    message: error instanceof Error ? error.message : String(error),
+    retryable: declared?.isRetryable ?? false,
+    userMessage: declared?.suggestedUserMessage ?? 'An unexpected error occurred',
+    details: error
+  };
+}
+
+/**
+ * Look up the declared ErrorType for an error and decide whether it
+ * can be retried. Declared errors win; undeclared errors fall back to
+ * the error's own `retryable` flag.
+ */
+export function classifyError(
+  errors: ErrorConfig,
+  error: ToolError
+): { declared?: ErrorType; retryable: boolean } {
+  const declared = errors.possibleErrors.find(e => e.code === error.code);
+  return {
+    declared,
+    retryable: declared ? declared.isRetryable : error.retryable
+  };
+}
+
+// First strategy that targets this error code, or applies to all codes
+export function selectRetryStrategy(
+  strategies: RetryStrategy[],
+  error: ToolError
+): RetryStrategy | undefined {
+  return strategies.find(s => !s.retryOn || s.retryOn.includes(error.code));
+}
+
+// Delay before the retry that follows `attempt` (1-based)
+export function computeRetryDelay(strategy: RetryStrategy, attempt: number): number {
+  const initialDelay = strategy.initialDelay ?? DEFAULT_INITIAL_DELAY;
+
+  switch (strategy.type) {
+    case 'exponential-backoff':
+      return initialDelay * Math.pow(2, attempt - 1);
+    case 'fixed-interval':
+      return initialDelay;
+    case 'custom':
+      return strategy.computeDelay ? strategy.computeDelay(attempt) : initialDelay;
+  }
+}
@@ -0,0 +1,190 @@
+import { ExecutableTool, ToolError } from '../index';
+import { Clock, InvocationResult, InvokeOptions } from './types';
+import { systemClock } from './retry';
+import { cancelledResponse } from './cancel';
+import { startTool } from './index';
+
+export const QUEUE_TIMEOUT_CODE = 'QUEUE_TIMEOUT';
+
+// Thrown (as a ToolError) when an invocation waits too long for a slot
+export class QueueTimeoutError extends Error implements ToolError {
+  readonly code = QUEUE_TIMEOUT_CODE;
+  readonly retryable = true;
+  readonly userMessage = 'The tool is busy. Please try again shortly.';
+
+  constructor(readonly toolId: string, readonly waited: number) {
+    super(`Timed out after ${waited}ms waiting for a free ${toolId} slot`);
+    this.name = 'QueueTimeoutError';
+  }
+}
+
+export type SchedulerOptions = {
+  // 'priority' runs higher priorities first; ties keep FIFO order
+  queueing?: 'fifo' | 'priority';
+  // Default max ms an invocation may wait in the queue
+  queueTimeout?: number;
+  // Measures waits and runs queue timeouts
+  clock?: Clock;
+};
+
+export type ScheduleOptions = InvokeOptions & {
+  priority?: number;
+  queueTimeout?: number;
+};
+
+export type ScheduledResult<T = unknown> = InvocationResult<T> & {
+  // ms spent waiting for a free slot
+  waitTime: number;
+};
+
+export type QueueStats = {
+  running: number;
+  queued: number;
+  // Longest current wait in the queue
+  oldestWait: number;
+  // Average wait of invocations that got a slot or timed out
+  averageWait: number;
+};
+
+type QueueEntry = {
+  priority: number;
+  sequence: number;
+  enqueuedAt: number;
+  run: () => void;
+};
+
+type ToolQueue = {
+  running: number;
+  entries: QueueEntry[];
+  waits: number;
+  totalWait: number;
+};
+
+/**
+ * Enforces execution.parallelExecutionLimit per tool id. Invocations
+ * beyond the limit wait in a per-tool queue and start as slots free up.
+ */
+export class ToolScheduler {
+  private readonly queues = new Map<string, ToolQueue>();
+  private sequence = 0;
+
+  constructor(private readonly options: SchedulerOptions = {}) {}
+
+  schedule<TInput, TOutput>(
+    tool: ExecutableTool<TInput, TOutput>,
+    input: TInput,
+    opts: ScheduleOptions = {}
+  ): Promise<ScheduledResult<TOutput>> {
+    const clock = opts.clock ?? this.options.clock ?? systemClock;
+    const queue = this.queueFor(tool.metadata.id);
+    const limit = tool.execution.parallelExecutionLimit ?? Infinity;
+    const enqueuedAt = clock.now();
+
+    const run = () => {
+      const waitTime = clock.now() - enqueuedAt;
+      queue.running++;
+      return startTool(tool, input, opts).result
+        .then(result => ({ ...result, waitTime }))
+        .finally(() => {
+          queue.running--;
+          this.drain(queue, limit);
+        });
+    };
+
+    if (queue.running < limit && queue.entries.length === 0) {
+      this.recordWait(queue, 0);
+      return run();
+    }
+
+    return new Promise((resolve, reject) => {
+      const timeout = opts.queueTimeout ?? this.options.queueTimeout;
+      const signal = tool.execution.canBeCancelled ? opts.signal : undefined;
+      let left = false;
+      let cancelTimer: (() => void) | undefined;
+
+      const leave = () => {
+        left = true;
+        cancelTimer?.();
+        signal?.removeEventListener('abort', onAbort);
+        queue.entries = queue.entries.filter(e => e !== entry);
+        const waited = clock.now() - enqueuedAt;
+        this.recordWait(queue, waited);
+        return waited;
+      };
+
+      const onAbort = () => {
+        const waitTime = leave();
+        resolve({ response: cancelledResponse(signal!), attempts: [], waitTime });
+      };
+
+      const entry: QueueEntry = {
+        priority: this.options.queueing === 'priority' ? opts.priority ?? 0 : 0,
+        sequence: this.sequence++,
+        enqueuedAt,
+        run: () => {
+          leave();
+          run().then(resolve, reject);
+        }
+      };
+
+      if (signal?.aborted) return onAbort();
+      signal?.addEventListener('abort', onAbort, { once: true });
+      if (timeout !== undefined) {
+        // On the clock like retry delays, so a fake clock drives timeouts too
+        const expire = () => {
+          if (!left) reject(new QueueTimeoutError(tool.metadata.id, leave()));
+        };
+        if (clock.setTimer) {
+          cancelTimer = clock.setTimer(timeout, expire);
+        } else {
+          clock.sleep(timeout).then(expire);
+        }
+      }
+
+      this.enqueue(queue, entry);
+    });
+  }
+
+  stats(toolId: string): QueueStats {
+    const queue = this.queues.get(toolId);
+    if (!queue) return { running: 0, queued: 0, oldestWait: 0, averageWait: 0 };
+
+    const now = (this.options.clock ?? systemClock).now();
+    return {
+      running: queue.running,
+      queued: queue.entries.length,
+      oldestWait: queue.entries.reduce((max, e) => Math.max(max, now - e.enqueuedAt), 0),
+      averageWait: queue.waits === 0 ? 0 : queue.totalWait / queue.waits
+    };
+  }
+
+  private queueFor(toolId: string): ToolQueue {
+    let queue = this.queues.get(toolId);
+    if (!queue) {
+      queue = { running: 0, entries: [], waits: 0, totalWait: 0 };
+      this.queues.set(toolId, queue);
+    }
+    return queue;
+  }
+
+  // Keep entries sorted: highest priority first, then arrival order
+  private enqueue(queue: ToolQueue, entry: QueueEntry) {
+    const index = queue.entries.findIndex(e => e.priority < entry.priority);
+    if (index < 0) {
+      queue.entries.push(entry);
+    } else {
+      queue.entries.splice(index, 0, entry);
+    }
+  }
+
+  private drain(queue: ToolQueue, limit: number) {
+    while (queue.running < limit && queue.entries.length > 0) {
+      queue.entries[0].run();
+    }
+  }
+
+  private recordWait(queue: ToolQueue, waited: number) {
+    queue.waits++;
+    queue.totalWait += waited;
+  }
+}
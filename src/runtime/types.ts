@@ -0,0 +1,69 @@
+import { ExecutableTool, ToolResponse, RetryStrategy, FallbackStrategy } from '../index';
+import { ProgressListener } from './progress';
+import { FrameSession } from '../frames';
+
+// Time source used by the runtime. Swap it out in tests to control delays.
+export type Clock = {
+  now(): number;
+  sleep(ms: number): Promise<void>;
+  // Call `callback` after `ms` unless the returned function is called
+  // first. Clocks without it time out through sleep(), which can't be
+  // cancelled.
+  setTimer?(ms: number, callback: () => void): () => void;
+};
+
+// Applied to every computed retry delay before sleeping
+export type JitterFn = (delay: number, attempt: number) => number;
+
+export type InvokeOptions = {
+  clock?: Clock;
+  jitter?: JitterFn;
+  // Overrides the strategies declared in errors.retryStrategies
+  retryStrategies?: RetryStrategy[];
+  // Tools that 'alternative-tool' fallbacks can resolve by metadata.id
+  tools?: ExecutableTool[];
+  // Backing store for 'cache' fallbacks
+  cache?: ResultCache;
+  // External cancellation; ignored for tools with canBeCancelled: false
+  signal?: AbortSignal;
+  // Subscribe to progress reported by the tool while it runs
+  onProgress?: ProgressListener;
+  // Check success data against the tool's output schema; defaults to
+  // outputChecksEnabled(), i.e. on outside production
+  checkOutput?: boolean;
+  // Passed to execute for tools that keep per-session frame state
+  session?: FrameSession<any>;
+};
+
+export type AttemptRecord<T = unknown> = {
+  attempt: number;
+  startedAt: number;
+  finishedAt: number;
+  response: ToolResponse<T>;
+  retryable: boolean;
+  // Delay slept before the next attempt, if there was one
+  delayBeforeNext?: number;
+  // Set on attempts made while running a fallback
+  fallback?: FallbackStrategy['type'];
+};
+
+export type InvocationResult<T = unknown> = {
+  response: ToolResponse<T>;
+  attempts: AttemptRecord<T>[];
+};
+
+// Handle to a running invocation, returned by startTool
+export type ToolInvocation<T = unknown> = {
+  result: Promise<InvocationResult<T>>;
+  // Returns false when the tool cannot be cancelled or has already settled
+  cancel(reason?: string): boolean;
+  readonly cancellable: boolean;
+  // Subscribe to progress updates; returns an unsubscribe function
+  onProgress(listener: ProgressListener<T>): () => void;
+};
+
+// Storage for the 'cache' fallback strategy
+export type ResultCache = {
+  get(key: string): ToolResponse | undefined | Promise<ToolResponse | undefined>;
+  set(key: string, response: ToolResponse): void | Promise<void>;
+};
@@ -0,0 +1,111 @@
+import { createTool, ExecutableTool, s } from '../..';
+import { defineTool } from '../../compiler';
+import { Infer, InferFields } from '..';
+
+// Compile-time checks; each @ts-expect-error must stay an error
+describe('schema type inference', () => {
+  const metadata = { id: 'prices', name: 'Prices' };
+  const base = {
+    version: '1.0.0',
+    metadata,
+    documentation: { description: 'Get prices', examples: [], limitations: [] },
+    errors: { possibleErrors: [], retryStrategies: [] },
+    execution: { canBeCancelled: false, supportsProgress: false },
+    state: { persistsBetweenCalls: false }
+  };
+
+  it('infers execute input and output from createTool schemas', async () => {
+    const tool = createTool({
+      ...base,
+      input: {
+        productName: s.string(),
+        store: s.optional(s.enum(['amazon', 'walmart'])),
+        maxResults: s.withDefault(s.integer(), 10)
+      },
+      output: s.object({ prices: s.array(s.number()) }),
+      async execute(input) {
+        const name: string = input.productName;
+        const store: 'amazon' | 'walmart' | undefined = input.store;
+        // @ts-expect-error field not declared in the schema
+        input.storeName;
+        return { status: 'success', data: { prices: [name.length, store ? 1 : 0] } };
+      }
+    });
+
+    const response = await tool.execute({ productName: 'eggs' }, {
+      signal: new AbortController().signal,
+      attempt: 1,
+      reportProgress: () => undefined
+    });
+    expect(response.data?.prices).toEqual([4, 0]);
+  });
+
+  it('rejects handlers that return the wrong output shape', () => {
+    createTool({
+      ...base,
+      input: { id: s.string() },
+      output: s.object({ total: s.number() }),
+      // @ts-expect-error total must be a number
+      async execute() {
+        return { status: 'success', data: { total: 'ten' } };
+      }
+    });
+  });
+
+  it('still accepts explicit type parameters', () => {
+    const tool: ExecutableTool<{ id: string }, number> = createTool<{ id: string }, number>({
+      ...base,
+      async execute(input) {
+        return { status: 'success', data: input.id.length };
+      }
+    });
+    expect(tool.metadata.id).toBe('prices');
+  });
+
+  it('infers ToolDefinition handlers from defineTool', async () => {
+    const tool = defineTool({
+      name: 'getProductPrices',
+      type: 'query',
+      description: 'Get prices',
+      input: { productName: 'string', store: s.string() },
+      output: { prices: s.array(s.number()) },
+      async execute({ productName, store }) {
+        return { prices: [productName.length + store.length] };
+      }
+    });
+    expect(await tool.execute({ productName: 'eggs', store: 'shop' })).toEqual({ prices: [8] });
+
+    defineTool({
+      name: 'renamed',
+      type: 'query',
+      description: 'Field renamed in the schema but not the handler',
+      input: { product: s.string() },
+      // @ts-expect-error productName no longer exists
+      async execute({ productName }) {
+        return productName;
+      }
+    });
+  });
+
+  it('maps nested schemas to TypeScript types', () => {
+    const schema = s.object({
+      mode: s.union([s.literal('fast'), s.literal('slow')]),
+      tags: s.optional(s.array(s.string())),
+      extra: s.record(s.number())
+    });
+    const value: Infer<typeof schema> = { mode: 'fast', extra: { a: 1 } };
+    // @ts-expect-error not one of the literals
+    const bad: Infer<typeof schema> = { mode: 'medium', extra: {} };
+    const fields: InferFields<{ a: 'number'; b: typeof schema }> = { a: 1, b: value };
+    expect([value, bad, fields]).toHaveLength(3);
+  });
+
+  it('types defaults from their schema', () => {
+    const mode = s.withDefault(s.enum(['add', 'set']), 'add');
+    // @ts-expect-error not one of the enum values
+    const bad = s.withDefault(s.enum(['add', 'set']), 'nope');
+    // @ts-expect-error count must be a number
+    const count = s.withDefault(s.integer(), '10');
+    expect([mode, bad, count]).toHaveLength(3);
+  });
+});
@@ -0,0 +1,63 @@
+import { s, toJsonSchema, propertiesToJsonSchema, isRequired } from '..';
+
+describe('schema DSL', () => {
+  it('keeps the string/number/boolean shorthand', () => {
+    expect(toJsonSchema('string')).toEqual({ type: 'string' });
+    expect(toJsonSchema('number')).toEqual({ type: 'number' });
+    expect(toJsonSchema('boolean')).toEqual({ type: 'boolean' });
+  });
+
+  it('compiles primitives with descriptions, defaults and constraints', () => {
+    expect(toJsonSchema(s.string({ description: 'City name', minLength: 1 }))).toEqual({
+      type: 'string',
+      description: 'City name',
+      minLength: 1
+    });
+    expect(toJsonSchema(s.withDefault(s.integer({ minimum: 1 }), 32))).toEqual({
+      type: 'integer',
+      default: 32,
+      minimum: 1
+    });
+  });
+
+  it('compiles literals, enums and unions of literals to enum', () => {
+    expect(toJsonSchema(s.literal('fast'))).toEqual({ type: 'string', enum: ['fast'] });
+    expect(toJsonSchema(s.enum(['csv', 'parquet']))).toEqual({ type: 'string', enum: ['csv', 'parquet'] });
+    expect(toJsonSchema(s.union([s.literal(1), s.literal(2)]))).toEqual({ type: 'number', enum: [1, 2] });
+    expect(toJsonSchema(s.enum(['auto', 0]))).toEqual({ type: ['string', 'number'], enum: ['auto', 0] });
+  });
+
+  it('compiles mixed unions to anyOf', () => {
+    expect(toJsonSchema(s.union([s.string(), s.array(s.number())], { description: 'Id or ids' }))).toEqual({
+      description: 'Id or ids',
+      anyOf: [{ type: 'string' }, { type: 'array', items: { type: 'number' } }]
+    });
+  });
+
+  it('compiles nested objects with required and optional fields', () => {
+    const schema = s.object({
+      path: s.string(),
+      tags: s.optional(s.array(s.string())),
+      retries: s.withDefault(s.number(), 3),
+      meta: s.record(s.unknown())
+    });
+
+    expect(toJsonSchema(schema)).toEqual({
+      type: 'object',
+      properties: {
+        path: { type: 'string' },
+        tags: { type: 'array', items: { type: 'string' } },
+        retries: { type: 'number', default: 3 },
+        meta: { type: 'object', properties: {}, required: [], additionalProperties: {} }
+      },
+      required: ['path', 'meta']
+    });
+  });
+
+  it('treats fields with a default as not required', () => {
+    expect(isRequired('string')).toBe(true);
+    expect(isRequired(s.optional(s.string()))).toBe(false);
+    expect(isRequired(s.string({ default: 'x' }))).toBe(false);
+    expect(propertiesToJsonSchema({ a: 'number', b: s.optional(s.boolean()) }).required).toEqual(['a']);
+  });
+});
@@ -0,0 +1,104 @@
+import { s, parseInput, parseValue, invalidInputError, InputValidationError, INVALID_INPUT_CODE } from '..';
+import { ValidationErrorCode } from '../../validation';
+
+describe('parseInput', () => {
+  const fields = {
+    amount: 'number' as const,
+    label: s.optional(s.string()),
+    mode: s.withDefault(s.enum(['add', 'set']), 'add'),
+    tags: s.optional(s.array(s.string()))
+  };
+
+  it('accepts valid input and applies defaults', () => {
+    expect(parseInput(fields, { amount: 2, tags: ['a'] })).toEqual({
+      success: true,
+      value: { amount: 2, mode: 'add', tags: ['a'] }
+    });
+  });
+
+  it('coerces numeric strings, boolean strings and numbers for strings', () => {
+    const result = parseInput({ n: s.integer(), flag: 'boolean', id: 'string' }, { n: '5', flag: 'false', id: 42 });
+    expect(result).toEqual({ success: true, value: { n: 5, flag: false, id: '42' } });
+  });
+
+  it('does not coerce lossy values', () => {
+    const result = parseInput({ n: 'number', flag: 'boolean' }, { n: '5 apples', flag: 'yes' });
+    expect(result.success).toBe(false);
+    if (result.success) return;
+    expect(result.errors.map(e => e.path)).toEqual([['n'], ['flag']]);
+  });
+
+  it('reports every missing or invalid path', () => {
+    const result = parseInput(fields, { label: 3, mode: 'multiply', tags: ['ok', {}] });
+    expect(result).toEqual({
+      success: false,
+      errors: [
+        { path: ['amount'], message: 'Required', code: ValidationErrorCode.MISSING_REQUIRED },
+        { path: ['mode'], message: 'Expected one of "add", "set"', code: ValidationErrorCode.INVALID_VALUE },
+        { path: ['tags', '1'], message: 'Expected string, got object', code: ValidationErrorCode.INVALID_TYPE }
+      ]
+    });
+  });
+
+  it('treats null as omitted for optional fields', () => {
+    expect(parseInput(fields, { amount: 1, label: null, mode: null })).toEqual({
+      success: true,
+      value: { amount: 1, mode: 'add' }
+    });
+  });
+
+  it('rejects non-object input', () => {
+    const result = parseInput(fields, 'amount=1');
+    expect(result.success).toBe(false);
+    if (!result.success) expect(result.errors[0].path).toEqual([]);
+  });
+});
+
+describe('parseValue', () => {
+  it('validates nested objects and reports nested paths', () => {
+    const schema = s.object({
+      dataset: s.object({ format: s.enum(['csv', 'json']), rows: s.integer({ minimum: 1 }) }),
+      strict: s.object({ a: s.string() }, { additionalProperties: false })
+    });
+
+    const result = parseValue(schema, { dataset: { format: 'csv', rows: '0' }, strict: { a: 'x', b: 1 } });
+    expect(result.success).toBe(false);
+    if (result.success) return;
+    expect(result.errors).toEqual([
+      { path: ['dataset', 'rows'], message: 'Must be at least 1', code: ValidationErrorCode.INVALID_VALUE },
+      { path: ['strict', 'b'], message: 'Unknown field', code: ValidationErrorCode.INVALID_VALUE }
+    ]);
+  });
+
+  it('picks the first matching union option', () => {
+    const schema = s.union([s.number(), s.array(s.number())]);
+    expect(parseValue(schema, '3')).toEqual({ success: true, value: 3 });
+    expect(parseValue(schema, ['1', 2])).toEqual({ success: true, value: [1, 2] });
+    expect(parseValue(schema, 'three').success).toBe(false);
+  });
+
+  it('validates record values', () => {
+    expect(parseValue(s.record(s.number()), { a: '1' })).toEqual({ success: true, value: { a: 1 } });
+  });
+});
+
+describe('invalid input errors', () => {
+  const errors = [{ path: ['a', 'b'], message: 'Required', code: ValidationErrorCode.MISSING_REQUIRED }];
+
+  it('builds a non-retryable ToolError listing each path', () => {
+    expect(invalidInputError(errors)).toEqual({
+      code: INVALID_INPUT_CODE,
+      message: 'Invalid input: a.b: Required',
+      retryable: false,
+      userMessage: 'The tool was called with invalid arguments.',
+      details: { errors }
+    });
+  });
+
+  it('throws the same shape from InputValidationError', () => {
+    const error = new InputValidationError(errors);
+    expect(error).toBeInstanceOf(Error);
+    expect(error.code).toBe(INVALID_INPUT_CODE);
+    expect(error.details.errors).toBe(errors);
+  });
+});
@@ -0,0 +1,157 @@
+import { Infer } from './infer';
+import {
+  ArraySchema,
+  BooleanSchema,
+  EnumSchema,
+  FieldSchema,
+  JsonSchema,
+  LiteralSchema,
+  NumberSchema,
+  ObjectSchema,
+  Primitive,
+  Schema,
+  StringSchema,
+  UnionSchema,
+  UnknownSchema
+} from './types';
+
+export * from './types';
+export * from './infer';
+export * from './validate';
+
+type Options<S extends Schema> = Omit<S, 'type'>;
+
+// Schema builders, e.g. s.object({ name: s.string(), tags: s.optional(s.array(s.string())) })
+export const s = {
+  string: (options: Partial<Options<StringSchema>> = {}): StringSchema => ({ type: 'string', ...options }),
+  number: (options: Partial<Options<NumberSchema>> = {}): NumberSchema => ({ type: 'number', ...options }),
+  integer: (options: Partial<Options<NumberSchema>> = {}): NumberSchema => ({ type: 'integer', ...options }),
+  boolean: (options: Partial<Options<BooleanSchema>> = {}): BooleanSchema => ({ type: 'boolean', ...options }),
+  unknown: (options: Partial<Options<UnknownSchema>> = {}): UnknownSchema => ({ type: 'unknown', ...options }),
+
+  literal: <V extends Primitive>(value: V, options: SchemaOptions = {}): LiteralSchema<V> =>
+    ({ type: 'literal', value, ...options }),
+
+  enum: <const V extends Primitive>(values: readonly V[], options: SchemaOptions = {}): EnumSchema<V> =>
+    ({ type: 'enum', values, ...options }),
+
+  array: <I extends Schema>(items: I, options: SchemaOptions & { minItems?: number; maxItems?: number } = {}): ArraySchema<I> =>
+    ({ type: 'array', items, ...options }),
+
+  object: <P extends Record<string, Schema>>(
+    properties: P,
+    options: SchemaOptions & { additionalProperties?: boolean | Schema } = {}
+  ): ObjectSchema<P> => ({ type: 'object', properties, ...options }),
+
+  // Object with arbitrary keys whose values match `values`
+  record: <V extends Schema>(values: V, options: SchemaOptions = {}): ObjectSchema<{}> & { additionalProperties: V } =>
+    ({ type: 'object', properties: {}, additionalProperties: values, ...options }),
+
+  union: <const O extends readonly Schema[]>(options: O, extra: SchemaOptions = {}): UnionSchema<O> =>
+    ({ type: 'union', options, ...extra }),
+
+  optional: <S extends Schema>(schema: S): S & { optional: true } => ({ ...schema, optional: true }),
+
+  // Optional field that takes `value` when omitted
+  withDefault: <S extends Schema>(schema: S, value: Infer<S>): S & { optional: true } =>
+    ({ ...schema, optional: true, default: value }) as S & { optional: true },
+
+  describe: <S extends Schema>(schema: S, description: string): S => ({ ...schema, description })
+};
+
+export type SchemaOptions = {
+  description?: string;
+  default?: unknown;
+};
+
+export function normalizeField(field: FieldSchema): Schema {
+  return typeof field === 'string' ? { type: field } : field;
+}
+
+export function isRequired(field: FieldSchema): boolean {
+  const schema = normalizeField(field);
+  return !schema.optional && schema.default === undefined;
+}
+
+function primitiveType(value: Primitive): string {
+  return typeof value === 'number' ? 'number' : typeof value;
+}
+
+// Drop undefined keys so compiled output stays compact and comparable
+function compact(schema: JsonSchema): JsonSchema {
+  return Object.fromEntries(
+    Object.entries(schema).filter(([, value]) => value !== undefined)
+  ) as JsonSchema;
+}
+
+/**
+ * Compile a schema node (or shorthand type) to JSON Schema.
+ */
+export function toJsonSchema(field: FieldSchema): JsonSchema {
+  const schema = normalizeField(field);
+  const common = { description: schema.description, default: schema.default };
+
+  switch (schema.type) {
+    case 'string':
+      return compact({
+        type: 'string',
+        ...common,
+        format: schema.format,
+        pattern: schema.pattern,
+        minLength: schema.minLength,
+        maxLength: schema.maxLength
+      });
+    case 'number':
+    case 'integer':
+      return compact({ type: schema.type, ...common, minimum: schema.minimum, maximum: schema.maximum });
+    case 'boolean':
+      return compact({ type: 'boolean', ...common });
+    case 'unknown':
+      return compact({ ...common });
+    case 'literal':
+      return compact({ type: primitiveType(schema.value), ...common, enum: [schema.value] });
+    case 'enum': {
+      const types = [...new Set(schema.values.map(primitiveType))];
+      return compact({ type: types.length === 1 ? types[0] : types, ...common, enum: [...schema.values] });
+    }
+    case 'array':
+      return compact({
+        type: 'array',
+        ...common,
+        items: toJsonSchema(schema.items),
+        minItems: schema.minItems,
+        maxItems: schema.maxItems
+      });
+    case 'object':
+      return compact({
+        type: 'object',
+        ...common,
+        ...propertiesToJsonSchema(schema.properties),
+        additionalProperties: typeof schema.additionalProperties === 'object'
+          ? toJsonSchema(schema.additionalProperties)
+          : schema.additionalProperties
+      });
+    case 'union': {
+      // A union of literals is just an enum
+      if (schema.options.every(o => o.type === 'literal')) {
+        const values = schema.options.map(o => (o as LiteralSchema).value);
+        return toJsonSchema({ type: 'enum', values, description: schema.description, default: schema.default });
+      }
+      return compact({ ...common, anyOf: schema.options.map(toJsonSchema) });
+    }
+  }
+}
+
+// properties/required pair for a set of named fields
+export function propertiesToJsonSchema(
+  fields: Record<string, FieldSchema>
+): { properties: Record<string, JsonSchema>; required: string[] } {
+  const properties: Record<string, JsonSchema> = {};
+  for (const [key, field] of Object.entries(fields)) {
+    properties[key] = toJsonSchema(field);
+  }
+  return {
+    properties,
+    required: Object.keys(fields).filter(key => isRequired(fields[key]))
+  };
+}
@@ -0,0 +1,57 @@
+import {
+  ArraySchema,
+  BooleanSchema,
+  EnumSchema,
+  FieldSchema,
+  LiteralSchema,
+  NumberSchema,
+  ObjectSchema,
+  Schema,
+  StringSchema,
+  UnionSchema
+} from './types';
+
+type ShorthandTypes = {
+  string: string;
+  number: number;
+  boolean: boolean;
+};
+
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+
+type OptionalKeys<F> = {
+  [K in keyof F]: F[K] extends { optional: true } ? K : never;
+}[keyof F];
+
+/**
+ * TypeScript type of the values a schema accepts, e.g.
+ * Infer<typeof s.array(s.string())> is string[]. Unresolved nested
+ * schemas (plain `Schema`) infer as unknown rather than recursing.
+ */
+export type Infer<S> =
+  S extends keyof ShorthandTypes ? ShorthandTypes[S]
+  : S extends StringSchema ? string
+  : S extends NumberSchema ? number
+  : S extends BooleanSchema ? boolean
+  : S extends LiteralSchema<infer V> ? V
+  : S extends EnumSchema<infer V> ? V
+  : S extends ArraySchema<infer I> ? (Schema extends I ? unknown[] : Infer<I>[])
+  : S extends UnionSchema<infer O> ? (Schema extends O[number] ? unknown : Infer<O[number]>)
+  : S extends ObjectSchema<infer P>
+    ? string extends keyof P ? Record<string, unknown> : InferObject<P, S>
+  : unknown;
+
+/**
+ * Object type for a set of named fields. Fields marked optional (including
+ * those built with s.withDefault) become optional keys.
+ */
+export type InferFields<F extends Record<string, FieldSchema>> = Simplify<
+  { [K in Exclude<keyof F, OptionalKeys<F>>]: Infer<F[K]> } &
+  { [K in OptionalKeys<F>]?: Infer<F[K]> }
+>;
+
+// Records (s.record) also allow undeclared keys
+type InferObject<P extends Record<string, Schema>, S> =
+  S extends { additionalProperties: infer A extends Schema }
+    ? InferFields<P> & Record<string, Infer<A>>
+    : InferFields<P>;
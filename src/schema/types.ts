@@ -0,0 +1,101 @@
+// Schema DSL for tool inputs and outputs. Nodes are plain data so they
+// can be inspected, serialized and compiled to JSON Schema.
+
+export type SchemaBase = {
+  description?: string;
+  // Field may be omitted from its parent object
+  optional?: boolean;
+  // Value used when the field is omitted
+  default?: unknown;
+};
+
+export interface StringSchema extends SchemaBase {
+  type: 'string';
+  format?: string;
+  pattern?: string;
+  minLength?: number;
+  maxLength?: number;
+}
+
+export interface NumberSchema extends SchemaBase {
+  type: 'number' | 'integer';
+  minimum?: number;
+  maximum?: number;
+}
+
+export interface BooleanSchema extends SchemaBase {
+  type: 'boolean';
+}
+
+export type Primitive = string | number | boolean;
+
+export interface LiteralSchema<V extends Primitive = Primitive> extends SchemaBase {
+  type: 'literal';
+  value: V;
+}
+
+export interface EnumSchema<V extends Primitive = Primitive> extends SchemaBase {
+  type: 'enum';
+  values: readonly V[];
+}
+
+export interface ArraySchema<I extends Schema = Schema> extends SchemaBase {
+  type: 'array';
+  items: I;
+  minItems?: number;
+  maxItems?: number;
+}
+
+export interface ObjectSchema<P extends Record<string, Schema> = Record<string, Schema>> extends SchemaBase {
+  type: 'object';
+  properties: P;
+  // Schema for keys not listed in properties (true allows anything)
+  additionalProperties?: boolean | Schema;
+}
+
+export interface UnionSchema<O extends readonly Schema[] = readonly Schema[]> extends SchemaBase {
+  type: 'union';
+  options: O;
+}
+
+// Accepts any value
+export interface UnknownSchema extends SchemaBase {
+  type: 'unknown';
+}
+
+export type Schema =
+  | StringSchema
+  | NumberSchema
+  | BooleanSchema
+  | LiteralSchema
+  | EnumSchema
+  | ArraySchema
+  | ObjectSchema
+  | UnionSchema
+  | UnknownSchema;
+
+// Original ToolDefinition shorthand, still accepted for flat inputs
+export type ShorthandType = 'string' | 'number' | 'boolean';
+
+export type FieldSchema = ShorthandType | Schema;
+
+// The subset of JSON Schema we emit
+export interface JsonSchema {
+  type?: string | string[];
+  description?: string;
+  default?: unknown;
+  enum?: unknown[];
+  format?: string;
+  pattern?: string;
+  minLength?: number;
+  maxLength?: number;
+  minimum?: number;
+  maximum?: number;
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  anyOf?: JsonSchema[];
+}
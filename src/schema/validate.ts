@@ -0,0 +1,257 @@
+import type { ToolError } from '../index';
+import { ValidationError, ValidationErrorCode } from '../validation';
+import { FieldSchema, Schema } from './types';
+
+export const INVALID_INPUT_CODE = 'INVALID_INPUT';
+export const INVALID_OUTPUT_CODE = 'INVALID_OUTPUT';
+
+export type ParseOptions = {
+  // Apply lossless conversions such as "5" -> 5 (default true)
+  coerce?: boolean;
+};
+
+type ParseContext = {
+  errors: ValidationError[];
+  coerce: boolean;
+};
+
+export type ParseResult<T = unknown> =
+  | { success: true; value: T }
+  | { success: false; errors: ValidationError[] };
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function isNumeric(value: string): boolean {
+  return value.trim() !== '' && Number.isFinite(Number(value));
+}
+
+// Lossless conversions only, e.g. "5" -> 5 and "true" -> true
+function coerce(schema: Schema, value: unknown): unknown {
+  switch (schema.type) {
+    case 'number':
+    case 'integer':
+      return typeof value === 'string' && isNumeric(value) ? Number(value) : value;
+    case 'boolean':
+      return value === 'true' ? true : value === 'false' ? false : value;
+    case 'string':
+      return typeof value === 'number' && Number.isFinite(value) ? String(value) : value;
+    case 'literal':
+      return coerce({ type: typeof schema.value as 'string' | 'number' | 'boolean' }, value);
+    default:
+      return value;
+  }
+}
+
+function parse(schema: Schema, raw: unknown, path: string[], ctx: ParseContext): unknown {
+  const fail = (message: string, code = ValidationErrorCode.INVALID_TYPE) => {
+    ctx.errors.push({ path, message, code });
+    return raw;
+  };
+  const value = ctx.coerce ? coerce(schema, raw) : raw;
+
+  switch (schema.type) {
+    case 'unknown':
+      return value;
+    case 'string':
+      if (typeof value !== 'string') return fail(`Expected string, got ${describe(value)}`);
+      if (schema.minLength !== undefined && value.length < schema.minLength) {
+        return fail(`Must be at least ${schema.minLength} characters`, ValidationErrorCode.INVALID_VALUE);
+      }
+      if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+        return fail(`Must be at most ${schema.maxLength} characters`, ValidationErrorCode.INVALID_VALUE);
+      }
+      if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) {
+        return fail(`Must match ${schema.pattern}`, ValidationErrorCode.INVALID_VALUE);
+      }
+      return value;
+    case 'number':
+    case 'integer':
+      if (typeof value !== 'number' || Number.isNaN(value)) return fail(`Expected ${schema.type}, got ${describe(value)}`);
+      if (schema.type === 'integer' && !Number.isInteger(value)) return fail(`Expected integer, got ${value}`);
+      if (schema.minimum !== undefined && value < schema.minimum) {
+        return fail(`Must be at least ${schema.minimum}`, ValidationErrorCode.INVALID_VALUE);
+      }
+      if (schema.maximum !== undefined && value > schema.maximum) {
+        return fail(`Must be at most ${schema.maximum}`, ValidationErrorCode.INVALID_VALUE);
+      }
+      return value;
+    case 'boolean':
+      return typeof value === 'boolean' ? value : fail(`Expected boolean, got ${describe(value)}`);
+    case 'literal':
+      return value === schema.value
+        ? value
+        : fail(`Expected ${JSON.stringify(schema.value)}`, ValidationErrorCode.INVALID_VALUE);
+    case 'enum': {
+      // Coerce toward whichever member type matches, e.g. "2" for [1, 2]
+      const match = schema.values.find(v => v === value || (ctx.coerce && coerce({ type: 'literal', value: v }, value) === v));
+      return match !== undefined
+        ? match
+        : fail(`Expected one of ${schema.values.map(v => JSON.stringify(v)).join(', ')}`, ValidationErrorCode.INVALID_VALUE);
+    }
+    case 'array': {
+      if (!Array.isArray(value)) return fail(`Expected array, got ${describe(value)}`);
+      if (schema.minItems !== undefined && value.length < schema.minItems) {
+        return fail(`Must have at least ${schema.minItems} items`, ValidationErrorCode.INVALID_VALUE);
+      }
+      if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+        return fail(`Must have at most ${schema.maxItems} items`, ValidationErrorCode.INVALID_VALUE);
+      }
+      return value.map((item, i) => parse(schema.items, item, [...path, String(i)], ctx));
+    }
+    case 'object': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        return fail(`Expected object, got ${describe(value)}`);
+      }
+      const result = parseFieldsAt(schema.properties, value as Record<string, unknown>, path, ctx);
+      const extra = schema.additionalProperties;
+      for (const [key, item] of Object.entries(value)) {
+        if (key in schema.properties) continue;
+        if (extra === false) {
+          ctx.errors.push({ path: [...path, key], message: 'Unknown field', code: ValidationErrorCode.INVALID_VALUE });
+        } else {
+          result[key] = typeof extra === 'object' ? parse(extra, item, [...path, key], ctx) : item;
+        }
+      }
+      return result;
+    }
+    case 'union': {
+      // First option that accepts the value wins
+      for (const option of schema.options) {
+        const attempt = { ...ctx, errors: [] };
+        const parsed = parse(option, raw, path, attempt);
+        if (attempt.errors.length === 0) return parsed;
+      }
+      return fail('Does not match any allowed type', ValidationErrorCode.INVALID_VALUE);
+    }
+  }
+}
+
+function parseFieldsAt(
+  fields: Record<string, FieldSchema>,
+  input: Record<string, unknown>,
+  path: string[],
+  ctx: ParseContext
+): Record<string, unknown> {
+  const result: Record<string, unknown> = { ...input };
+  for (const [key, field] of Object.entries(fields)) {
+    const schema: Schema = typeof field === 'string' ? { type: field } : field;
+    // null stands in for "omitted" on optional fields, as strict mode sends it
+    const value = input[key] === null && (schema.optional || schema.default !== undefined)
+      ? undefined
+      : input[key];
+
+    if (value === undefined) {
+      delete result[key];
+      if (schema.default !== undefined) {
+        result[key] = schema.default;
+      } else if (!schema.optional) {
+        ctx.errors.push({ path: [...path, key], message: 'Required', code: ValidationErrorCode.MISSING_REQUIRED });
+      }
+      continue;
+    }
+    result[key] = parse(schema, value, [...path, key], ctx);
+  }
+  return result;
+}
+
+/**
+ * Check a value against a schema, applying safe coercions and defaults.
+ * Every problem is reported with its path, e.g. ['dataset', 'format'].
+ */
+export function parseValue<T = unknown>(
+  schema: FieldSchema,
+  value: unknown,
+  options: ParseOptions = {}
+): ParseResult<T> {
+  const ctx: ParseContext = { errors: [], coerce: options.coerce ?? true };
+  const parsed = parse(typeof schema === 'string' ? { type: schema } : schema, value, [], ctx);
+  return ctx.errors.length === 0 ? { success: true, value: parsed as T } : { success: false, errors: ctx.errors };
+}
+
+/**
+ * Check tool arguments against declared input fields. Unknown keys are
+ * passed through untouched.
+ */
+export function parseInput<T = Record<string, unknown>>(
+  fields: Record<string, FieldSchema>,
+  input: unknown,
+  options: ParseOptions = {}
+): ParseResult<T> {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    return {
+      success: false,
+      errors: [{ path: [], message: `Expected object, got ${describe(input)}`, code: ValidationErrorCode.INVALID_TYPE }]
+    };
+  }
+  const ctx: ParseContext = { errors: [], coerce: options.coerce ?? true };
+  const parsed = parseFieldsAt(fields, input as Record<string, unknown>, [], ctx);
+  return ctx.errors.length === 0 ? { success: true, value: parsed as T } : { success: false, errors: ctx.errors };
+}
+
+function summarize(errors: ValidationError[], root: string): string {
+  return errors.map(e => `${e.path.length ? e.path.join('.') : root}: ${e.message}`).join('; ');
+}
+
+// Error response for arguments that failed parseInput. details.errors
+// lists each bad path so the model can correct its call.
+export function invalidInputError(errors: ValidationError[]): ToolError {
+  return {
+    code: INVALID_INPUT_CODE,
+    message: `Invalid input: ${summarize(errors, '(input)')}`,
+    retryable: false,
+    userMessage: 'The tool was called with invalid arguments.',
+    details: { errors }
+  };
+}
+
+// Thrown by tools from defineTool when their arguments fail validation
+export class InputValidationError extends Error implements ToolError {
+  readonly code = INVALID_INPUT_CODE;
+  readonly retryable = false;
+  readonly userMessage = 'The tool was called with invalid arguments.';
+  readonly details: { errors: ValidationError[] };
+
+  constructor(readonly errors: ValidationError[]) {
+    super(`Invalid input: ${summarize(errors, '(input)')}`);
+    this.name = 'InputValidationError';
+    this.details = { errors };
+  }
+}
+
+/**
+ * Whether results are checked against declared output schemas. On
+ * everywhere except production, where the cost isn't worth paying.
+ */
+export function outputChecksEnabled(): boolean {
+  return typeof process === 'undefined' || process.env.NODE_ENV !== 'production';
+}
+
+// Error response for results that broke the declared output schema.
+// This is a bug in the tool, so it is never retryable.
+export function invalidOutputError(errors: ValidationError[]): ToolError {
+  return {
+    code: INVALID_OUTPUT_CODE,
+    message: `Output does not match schema: ${summarize(errors, '(output)')}`,
+    retryable: false,
+    userMessage: 'The tool returned an unexpected result.',
+    details: { errors }
+  };
+}
+
+// Thrown by tools from defineTool whose result breaks their output schema
+export class OutputValidationError extends Error implements ToolError {
+  readonly code = INVALID_OUTPUT_CODE;
+  readonly retryable = false;
+  readonly userMessage = 'The tool returned an unexpected result.';
+  readonly details: { errors: ValidationError[] };
+
+  constructor(readonly errors: ValidationError[]) {
+    super(`Output does not match schema: ${summarize(errors, '(output)')}`);
+    this.name = 'OutputValidationError';
+    this.details = { errors };
+  }
+}
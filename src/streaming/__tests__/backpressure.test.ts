@@ -0,0 +1,104 @@
+import { applyBackpressure, openStream, StreamEvent, BUFFER_OVERFLOW_CODE } from '../index';
+
+const tick = () => new Promise(resolve => setImmediate(resolve));
+
+// Producer that yields as fast as it is pulled, recording how far it got
+function fastProducer(count: number) {
+  const produced: number[] = [];
+  async function* events(): AsyncGenerator<StreamEvent<number>> {
+    for (let i = 1; i <= count; i++) {
+      produced.push(i);
+      yield { type: 'data', chunk: i };
+    }
+  }
+  return { events: events(), produced };
+}
+
+async function slowlyCollect<T>(events: AsyncIterable<StreamEvent<T>>): Promise<StreamEvent<T>[]> {
+  const seen: StreamEvent<T>[] = [];
+  for await (const event of events) {
+    seen.push(event);
+    for (let i = 0; i < 5; i++) await tick();
+  }
+  return seen;
+}
+
+function chunks<T>(events: StreamEvent<T>[]): T[] {
+  return events.flatMap(e => (e.type === 'data' ? [e.chunk] : []));
+}
+
+describe('applyBackpressure', () => {
+  it("'buffer' stops pulling from the producer once the buffer is full", async () => {
+    const { events, produced } = fastProducer(20);
+    const stream = applyBackpressure(events, { backpressure: 'buffer', maxBufferSize: 3 });
+    const iterator = stream.events[Symbol.asyncIterator]();
+
+    await iterator.next();
+    for (let i = 0; i < 10; i++) await tick();
+
+    expect(produced.length).toBeLessThanOrEqual(5);
+    expect(stream.stats.highWaterMark).toBe(3);
+
+    const rest: StreamEvent<number>[] = [];
+    for (let next = await iterator.next(); !next.done; next = await iterator.next()) rest.push(next.value);
+    expect(chunks(rest)).toHaveLength(19);
+    expect(stream.stats.dropped).toBe(0);
+  });
+
+  it("'drop' discards the oldest chunks and counts them", async () => {
+    const { events } = fastProducer(50);
+    const stream = applyBackpressure(events, { backpressure: 'drop', maxBufferSize: 5 });
+
+    const seen = await slowlyCollect(stream.events);
+    const received = chunks(seen);
+
+    expect(received.length + stream.stats.dropped).toBe(50);
+    expect(stream.stats.dropped).toBeGreaterThan(0);
+    expect(received[received.length - 1]).toBe(50);
+    expect(stream.stats.highWaterMark).toBeLessThanOrEqual(5);
+  });
+
+  it("'error' ends the stream with a typed overflow error", async () => {
+    const { events } = fastProducer(50);
+    const stream = applyBackpressure(events, { backpressure: 'error', maxBufferSize: 5 });
+
+    const seen = await slowlyCollect(stream.events);
+    const last = seen[seen.length - 1];
+
+    expect(last).toEqual({
+      type: 'error',
+      error: expect.objectContaining({ code: BUFFER_OVERFLOW_CODE, retryable: false })
+    });
+    expect(stream.stats.dropped).toBeGreaterThan(0);
+  });
+
+  it('never drops terminal or progress events', async () => {
+    async function* events(): AsyncGenerator<StreamEvent<number>> {
+      for (let i = 1; i <= 10; i++) yield { type: 'data', chunk: i };
+      yield { type: 'progress', progress: { percentage: 100 } };
+      yield { type: 'end' };
+    }
+    const stream = applyBackpressure(events(), { backpressure: 'drop', maxBufferSize: 2 });
+
+    const seen = await slowlyCollect(stream.events);
+
+    expect(seen.slice(-2)).toEqual([
+      { type: 'progress', progress: { percentage: 100 } },
+      { type: 'end' }
+    ]);
+  });
+
+  it('is applied by openStream when backpressure is requested', async () => {
+    const tool = {
+      streaming: { supportsPartialResults: true, supportsPause: false },
+      executeStream: () => fastProducer(30).events
+    };
+    const session = openStream(tool, {}, { backpressure: 'drop', maxBufferSize: 4 });
+
+    const seen = await slowlyCollect(session.events);
+
+    expect(seen[seen.length - 1]).toEqual({ type: 'end' });
+    expect(session.backpressure?.dropped).toBe(30 - chunks(seen).length);
+    expect(session.controller.state).toBe('complete');
+  });
+});
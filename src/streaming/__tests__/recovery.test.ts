@@ -0,0 +1,149 @@
+import { openStream, StreamEvent, StreamOptions, StreamRecoveryStrategy } from '../index';
+import { ToolError } from '../../index';
+
+const dropped: ToolError = {
+  code: 'CONNECTION_LOST',
+  message: 'connection lost',
+  retryable: true,
+  userMessage: 'Connection lost'
+};
+
+// Transcribes `total` segments, failing once after `failAfter` segments.
+// Checkpoints every `every` segments with the index of the last one sent.
+function transcriber(total: number, failAfter: number, every = 2) {
+  const calls: Array<string | undefined> = [];
+  let failed = false;
+
+  const tool = {
+    streaming: { supportsPartialResults: true, supportsPause: false },
+    async *executeStream(_input: unknown, options?: StreamOptions): AsyncGenerator<StreamEvent<number>> {
+      calls.push(options?.resumeFrom);
+      const start = options?.resumeFrom ? Number(options.resumeFrom) : 0;
+      for (let i = start + 1; i <= total; i++) {
+        if (!failed && i > failAfter) {
+          failed = true;
+          yield { type: 'error', error: dropped };
+          return;
+        }
+        yield i % every === 0 ? { type: 'data', chunk: i, checkpoint: String(i) } : { type: 'data', chunk: i };
+      }
+    }
+  };
+
+  return { tool, calls };
+}
+
+function recovery(overrides: Partial<StreamRecoveryStrategy<number>> = {}): StreamRecoveryStrategy<number> {
+  return {
+    shouldRecover: error => error.retryable,
+    maxRetries: 2,
+    partialFailure: 'resume',
+    retryDelay: () => 0,
+    bufferStrategy: 'discard',
+    ...overrides
+  };
+}
+
+async function collect<T>(events: AsyncIterable<StreamEvent<T>>): Promise<StreamEvent<T>[]> {
+  const seen: StreamEvent<T>[] = [];
+  for await (const event of events) seen.push(event);
+  return seen;
+}
+
+const chunks = (events: StreamEvent<number>[]) => events.flatMap(e => (e.type === 'data' ? [e.chunk] : []));
+
+describe('stream recovery', () => {
+  it('resumes from the last checkpoint and discards chunks already delivered', async () => {
+    const { tool, calls } = transcriber(8, 5);
+    const session = openStream(tool, {}, { recovery: recovery() });
+
+    const seen = await collect(session.events);
+
+    expect(calls).toEqual([undefined, '4']);
+    expect(chunks(seen)).toEqual([1, 2, 3, 4, 5, 6, 7, 8]);
+    expect(seen[seen.length - 1]).toEqual({ type: 'end' });
+    expect(session.recoveries).toBe(1);
+    expect(session.checkpoint).toBe('8');
+  });
+
+  it('replays re-sent chunks when bufferStrategy is replay', async () => {
+    const { tool } = transcriber(6, 5);
+    const seen = await collect(openStream(tool, {}, { recovery: recovery({ bufferStrategy: 'replay' }) }).events);
+
+    expect(chunks(seen)).toEqual([1, 2, 3, 4, 5, 5, 6]);
+  });
+
+  it('lets a custom strategy pick which re-sent chunks to pass on', async () => {
+    const { tool } = transcriber(6, 5);
+    const replayChunk = jest.fn(() => true);
+    const seen = await collect(openStream(tool, {}, {
+      recovery: recovery({ bufferStrategy: 'custom', replayChunk })
+    }).events);
+
+    expect(replayChunk).toHaveBeenCalledWith(5);
+    expect(chunks(seen)).toEqual([1, 2, 3, 4, 5, 5, 6]);
+  });
+
+  it('starts over without a checkpoint when partialFailure is restart', async () => {
+    const { tool, calls } = transcriber(6, 3);
+    const seen = await collect(openStream(tool, {}, { recovery: recovery({ partialFailure: 'restart' }) }).events);
+
+    expect(calls).toEqual([undefined, undefined]);
+    expect(chunks(seen)).toEqual([1, 2, 3, 4, 5, 6]);
+  });
+
+  it('ends with the error when recovery is not allowed', async () => {
+    const aborting = transcriber(6, 3);
+    const abortSeen = await collect(openStream(aborting.tool, {}, { recovery: recovery({ partialFailure: 'abort' }) }).events);
+    expect(abortSeen[abortSeen.length - 1]).toEqual({ type: 'error', error: dropped });
+    expect(aborting.calls).toHaveLength(1);
+
+    const refusing = transcriber(6, 3);
+    const refuseSeen = await collect(openStream(refusing.tool, {}, {
+      recovery: recovery({ shouldRecover: () => false })
+    }).events);
+    expect(refuseSeen[refuseSeen.length - 1].type).toBe('error');
+  });
+
+  it('gives up after maxRetries', async () => {
+    const calls: Array<string | undefined> = [];
+    const tool = {
+      streaming: { supportsPartialResults: true, supportsPause: false },
+      async *executeStream(_input: unknown, options?: StreamOptions): AsyncGenerator<StreamEvent<number>> {
+        calls.push(options?.resumeFrom);
+        throw Object.assign(new Error('offline'), { code: 'CONNECTION_LOST' });
+      }
+    };
+    const session = openStream(tool, {}, { recovery: recovery({ shouldRecover: () => true }) });
+
+    const seen = await collect(session.events);
+
+    expect(calls).toHaveLength(3);
+    expect(session.recoveries).toBe(2);
+    expect(session.controller.state).toBe('error');
+    expect(seen).toEqual([{ type: 'error', error: expect.objectContaining({ code: 'CONNECTION_LOST' }) }]);
+  });
+
+  it('waits retryDelay before reconnecting', async () => {
+    jest.useFakeTimers();
+    try {
+      const { tool, calls } = transcriber(4, 2);
+      const result = collect(openStream(tool, {}, { recovery: recovery({ retryDelay: n => n * 1000 }) }).events);
+
+      await jest.advanceTimersByTimeAsync(999);
+      expect(calls).toHaveLength(1);
+      await jest.advanceTimersByTimeAsync(1);
+      expect(chunks(await result)).toEqual([1, 2, 3, 4]);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('passes a caller-supplied checkpoint to the first connection', async () => {
+    const { tool, calls } = transcriber(6, 10);
+    const seen = await collect(openStream(tool, {}, { resumeFrom: '4' }).events);
+
+    expect(calls).toEqual(['4']);
+    expect(chunks(seen)).toEqual([5, 6]);
+  });
+});
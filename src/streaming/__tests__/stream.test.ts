@@ -0,0 +1,241 @@
+import { getEventListeners } from 'events';
+import {
+  createStreamingTool,
+  openStream,
+  StreamController,
+  StreamEvent,
+  StreamingTool,
+  StreamState,
+  CHUNK_TIMEOUT_CODE,
+  TOTAL_TIMEOUT_CODE
+} from '../index';
+
+function makeTool(
+  executeStream: StreamingTool<{ count: number }, number>['executeStream'],
+  supportsPause = false
+) {
+  return createStreamingTool<{ count: number }, number>({
+    version: '1.0.0',
+    metadata: { id: 'counter', name: 'Counter' },
+    documentation: { description: 'Counts up', examples: [], limitations: [] },
+    errors: { possibleErrors: [], retryStrategies: [] },
+    execution: { canBeCancelled: true, supportsProgress: true },
+    state: { persistsBetweenCalls: false },
+    streaming: { supportsPartialResults: true, supportsPause },
+    executeStream
+  });
+}
+
+async function* count({ count }: { count: number }): AsyncGenerator<StreamEvent<number>> {
+  for (let i = 1; i <= count; i++) {
+    yield { type: 'data', chunk: i };
+  }
+}
+
+async function collect<T>(events: AsyncIterable<StreamEvent<T>>): Promise<StreamEvent<T>[]> {
+  const seen: StreamEvent<T>[] = [];
+  for await (const event of events) seen.push(event);
+  return seen;
+}
+
+describe('StreamController', () => {
+  it('follows the documented transition table', () => {
+    const controller = new StreamController(true);
+    const states: StreamState[] = [];
+    controller.onStateChange(s => states.push(s));
+
+    controller.transition('streaming');
+    controller.pause();
+    controller.resume();
+    controller.transition('complete');
+
+    expect(states).toEqual(['streaming', 'paused', 'streaming', 'complete']);
+    expect(() => controller.transition('streaming')).toThrow('Invalid state transition: complete -> streaming');
+  });
+
+  it('blocks transitions out of initial other than streaming, error or cancelled', () => {
+    const controller = new StreamController();
+    expect(() => controller.transition('complete')).toThrow('Invalid state transition: initial -> complete');
+    expect(controller.cancel()).toBe(true);
+    expect(controller.state).toBe('cancelled');
+    expect(controller.cancel()).toBe(false);
+  });
+
+  it('refuses to pause streams that do not support it', () => {
+    const controller = new StreamController(false);
+    controller.transition('streaming');
+    expect(() => controller.pause()).toThrow('does not support pausing');
+  });
+});
+
+describe('createStreamingTool', () => {
+  it('streams data and finishes with end', async () => {
+    const tool = makeTool(count);
+    expect(await collect(tool.executeStream({ count: 3 }))).toEqual([
+      { type: 'data', chunk: 1 },
+      { type: 'data', chunk: 2 },
+      { type: 'data', chunk: 3 },
+      { type: 'end' }
+    ]);
+  });
+
+  it('moves the controller to complete', async () => {
+    const { events, controller } = openStream(makeTool(count), { count: 1 });
+    expect(controller.state).toBe('initial');
+    await collect(events);
+    expect(controller.state).toBe('complete');
+  });
+
+  it('turns thrown producer errors into a final error event', async () => {
+    const tool = makeTool(async function* () {
+      yield { type: 'data', chunk: 1 };
+      throw new Error('decoder crashed');
+    });
+    const { events, controller } = openStream(tool, { count: 1 });
+
+    const seen = await collect(events);
+
+    expect(seen[1]).toEqual({ type: 'error', error: expect.objectContaining({ message: 'decoder crashed' }) });
+    expect(controller.state).toBe('error');
+  });
+
+  it('stops at producer error events and closes the producer', async () => {
+    const cleanup = jest.fn();
+    const tool = makeTool(async function* () {
+      try {
+        yield { type: 'error', error: { code: 'X', message: 'x', retryable: false, userMessage: 'x' } };
+        yield { type: 'data', chunk: 1 };
+      } finally {
+        cleanup();
+      }
+    });
+
+    const seen = await collect(tool.executeStream({ count: 1 }));
+
+    expect(seen.map(e => e.type)).toEqual(['error']);
+    await new Promise(resolve => setImmediate(resolve));
+    expect(cleanup).toHaveBeenCalled();
+  });
+
+  it('cancels through the caller signal', async () => {
+    const abort = new AbortController();
+    let producerSignal: AbortSignal | undefined;
+    const tool = makeTool(async function* (_input, options) {
+      producerSignal = options?.signal;
+      yield { type: 'data', chunk: 1 };
+      await new Promise(() => {});
+    });
+
+    const seen: StreamEvent<number>[] = [];
+    for await (const event of tool.executeStream({ count: 1 }, { signal: abort.signal })) {
+      seen.push(event);
+      if (event.type === 'data') abort.abort();
+    }
+
+    expect(seen).toEqual([{ type: 'data', chunk: 1 }, { type: 'cancel' }]);
+    expect(producerSignal?.aborted).toBe(true);
+  });
+
+  it('ends with cancel without starting the producer when cancelled before the first pull', async () => {
+    const started = jest.fn();
+    const tool = makeTool(async function* (input) {
+      started();
+      yield* count(input);
+    });
+    const { events, controller } = openStream(tool, { count: 2 });
+
+    expect(controller.cancel()).toBe(true);
+
+    expect(await collect(events)).toEqual([{ type: 'cancel' }]);
+    expect(started).not.toHaveBeenCalled();
+    expect(controller.state).toBe('cancelled');
+  });
+
+  it('stops listening to the caller signal once the stream ends', async () => {
+    const abort = new AbortController();
+
+    await collect(openStream(makeTool(count), { count: 2 }, { signal: abort.signal }).events);
+    const cancelled = openStream(makeTool(count), { count: 2 }, { signal: abort.signal });
+    cancelled.controller.cancel();
+
+    expect(getEventListeners(abort.signal, 'abort')).toHaveLength(0);
+  });
+
+  it('stops pulling from the producer while paused', async () => {
+    const pulled: number[] = [];
+    const tool = makeTool(async function* ({ count }) {
+      for (let i = 1; i <= count; i++) {
+        pulled.push(i);
+        yield { type: 'data', chunk: i };
+      }
+    }, true);
+    const { events, controller } = openStream(tool, { count: 3 });
+    const iterator = events[Symbol.asyncIterator]();
+
+    await iterator.next();
+    controller.pause();
+    const pending = iterator.next();
+    await new Promise(resolve => setImmediate(resolve));
+    expect(pulled).toEqual([1]);
+
+    controller.resume();
+    expect(await pending).toEqual({ done: false, value: { type: 'data', chunk: 2 } });
+  });
+
+  it('closes the producer when the consumer stops early', async () => {
+    const cleanup = jest.fn();
+    const tool = makeTool(async function* () {
+      try {
+        for (let i = 1; ; i++) yield { type: 'data', chunk: i };
+      } finally {
+        cleanup();
+      }
+    });
+    const { events, controller } = openStream(tool, { count: 0 });
+
+    for await (const event of events) {
+      if (event.type === 'data' && event.chunk === 2) break;
+    }
+    await new Promise(resolve => setImmediate(resolve));
+
+    expect(cleanup).toHaveBeenCalled();
+    expect(controller.state).toBe('cancelled');
+  });
+
+  describe('timeouts', () => {
+    beforeEach(() => jest.useFakeTimers());
+    afterEach(() => jest.useRealTimers());
+
+    it('fails when a chunk takes longer than chunkTimeout', async () => {
+      const tool = makeTool(async function* () {
+        yield { type: 'data', chunk: 1 };
+        await new Promise(resolve => setTimeout(resolve, 500));
+        yield { type: 'data', chunk: 2 };
+      });
+      const { events, controller } = openStream(tool, { count: 2 }, { chunkTimeout: 100 });
+
+      const result = collect(events);
+      await jest.advanceTimersByTimeAsync(100);
+      const seen = await result;
+
+      expect(seen[1]).toEqual({ type: 'error', error: expect.objectContaining({ code: CHUNK_TIMEOUT_CODE }) });
+      expect(controller.state).toBe('error');
+    });
+
+    it('fails when the whole stream exceeds totalTimeout', async () => {
+      const tool = makeTool(async function* () {
+        for (let i = 1; ; i++) {
+          await new Promise(resolve => setTimeout(resolve, 40));
+          yield { type: 'data', chunk: i };
+        }
+      });
+
+      const result = collect(tool.executeStream({ count: 0 }, { chunkTimeout: 50, totalTimeout: 100 }));
+      await jest.advanceTimersByTimeAsync(100);
+      const seen = await result;
+
+      expect(seen.map(e => e.type)).toEqual(['data', 'data', 'error']);
+      expect(seen[2]).toEqual({ type: 'error', error: expect.objectContaining({ code: TOTAL_TIMEOUT_CODE }) });
+    });
+  });
+});
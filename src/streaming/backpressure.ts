@@ -0,0 +1,136 @@
+import { ToolError } from '../index';
+import { toToolError } from '../runtime';
+import { StreamEvent, StreamOptions } from './types';
+
+export const BUFFER_OVERFLOW_CODE = 'STREAM_BUFFER_OVERFLOW';
+export const DEFAULT_MAX_BUFFER_SIZE = 100;
+
+export type BackpressureStats = {
+  // Data chunks discarded because the consumer fell behind
+  dropped: number;
+  // Events currently waiting for the consumer
+  buffered: number;
+  // Most events ever waiting at once
+  highWaterMark: number;
+};
+
+export type BackpressureStream<T> = {
+  events: AsyncIterable<StreamEvent<T>>;
+  stats: BackpressureStats;
+};
+
+function overflowError(limit: number): ToolError {
+  return {
+    code: BUFFER_OVERFLOW_CODE,
+    message: `Stream buffer exceeded ${limit} events`,
+    retryable: false,
+    userMessage: 'The stream produced data faster than it could be processed'
+  };
+}
+
+function isTerminal<T>(event: StreamEvent<T>): boolean {
+  return event.type === 'end' || event.type === 'error' || event.type === 'cancel';
+}
+
+/**
+ * Decouple a producer from a slow consumer. The producer is pulled into
+ * a buffer of at most maxBufferSize events; once it is full:
+ * - 'buffer' stops pulling until the consumer catches up
+ * - 'drop' discards the oldest buffered data chunk to make room
+ * - 'error' discards the buffer and ends with a STREAM_BUFFER_OVERFLOW error
+ * Progress and terminal events are never dropped.
+ */
+export function applyBackpressure<T>(
+  source: AsyncIterable<StreamEvent<T>>,
+  options: Pick<StreamOptions, 'backpressure' | 'maxBufferSize'> = {}
+): BackpressureStream<T> {
+  const policy = options.backpressure ?? 'buffer';
+  const limit = Math.max(1, options.maxBufferSize ?? DEFAULT_MAX_BUFFER_SIZE);
+  const stats: BackpressureStats = { dropped: 0, buffered: 0, highWaterMark: 0 };
+  const buffer: StreamEvent<T>[] = [];
+  let finished = false;
+  let stopped = false;
+  let wakeConsumer: (() => void) | undefined;
+  let wakeProducer: (() => void) | undefined;
+
+  const push = (event: StreamEvent<T>) => {
+    buffer.push(event);
+    stats.buffered = buffer.length;
+    stats.highWaterMark = Math.max(stats.highWaterMark, buffer.length);
+    wakeConsumer?.();
+  };
+
+  const finish = (event?: StreamEvent<T>) => {
+    if (event) push(event);
+    finished = true;
+    wakeConsumer?.();
+  };
+
+  async function pump(producer: AsyncIterator<StreamEvent<T>>) {
+    try {
+      while (!stopped) {
+        if (policy === 'buffer' && buffer.length >= limit) {
+          await new Promise<void>(resolve => {
+            wakeProducer = resolve;
+          });
+          continue;
+        }
+
+        const next = await producer.next();
+        if (stopped) return;
+        if (next.done) return finish();
+
+        const event = next.value;
+        if (isTerminal(event)) return finish(event);
+
+        if (buffer.length >= limit && event.type === 'data') {
+          if (policy === 'error') {
+            stats.dropped += buffer.filter(e => e.type === 'data').length + 1;
+            buffer.length = 0;
+            producer.return?.().catch(() => undefined);
+            return finish({ type: 'error', error: overflowError(limit) });
+          }
+
+          // 'drop': make room by discarding the oldest chunk, or this one
+          const oldest = buffer.findIndex(e => e.type === 'data');
+          stats.dropped++;
+          if (oldest < 0) continue;
+          buffer.splice(oldest, 1);
+        }
+        push(event);
+      }
+    } catch (e) {
+      finish({ type: 'error', error: toToolError(e) });
+    }
+  }
+
+  async function* consume(): AsyncGenerator<StreamEvent<T>> {
+    const iterator = source[Symbol.asyncIterator]();
+    pump(iterator);
+
+    try {
+      while (true) {
+        const event = buffer.shift();
+        if (event) {
+          stats.buffered = buffer.length;
+          wakeProducer?.();
+          yield event;
+          if (isTerminal(event)) return;
+          continue;
+        }
+        if (finished) return;
+        await new Promise<void>(resolve => {
+          wakeConsumer = resolve;
+        });
+      }
+    } finally {
+      if (!finished) {
+        stopped = true;
+        wakeProducer?.();
+        iterator.return?.().catch(() => undefined);
+      }
+    }
+  }
+
+  return { events: consume(), stats };
+}
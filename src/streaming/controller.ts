@@ -0,0 +1,88 @@
+import { EventEmitter } from 'events';
+import { StreamState } from './types';
+
+// Explicit state transition rules, see docs/STREAMING.md
+const validTransitions: Record<StreamState, StreamState[]> = {
+  initial: ['streaming', 'error', 'cancelled'],
+  streaming: ['paused', 'complete', 'error', 'cancelled'],
+  paused: ['streaming', 'cancelled', 'error'],
+  cancelled: [],
+  error: [],
+  complete: []
+};
+
+export function isTerminalState(state: StreamState): boolean {
+  return validTransitions[state].length === 0;
+}
+
+/**
+ * Owns the state of one stream. Every state change goes through
+ * transition(), which rejects moves the transition table doesn't allow.
+ */
+export class StreamController {
+  private current: StreamState = 'initial';
+  private readonly stateEmitter = new EventEmitter();
+  private readonly abortController = new AbortController();
+
+  constructor(private readonly supportsPause = false) {}
+
+  get state(): StreamState {
+    return this.current;
+  }
+
+  // Aborted once the stream is cancelled
+  get signal(): AbortSignal {
+    return this.abortController.signal;
+  }
+
+  canTransition(to: StreamState): boolean {
+    return validTransitions[this.current].includes(to);
+  }
+
+  transition(to: StreamState) {
+    if (!this.canTransition(to)) {
+      throw new Error(`Invalid state transition: ${this.current} -> ${to}`);
+    }
+    this.current = to;
+    this.stateEmitter.emit('stateChange', to);
+  }
+
+  onStateChange(listener: (state: StreamState) => void): () => void {
+    this.stateEmitter.on('stateChange', listener);
+    return () => {
+      this.stateEmitter.off('stateChange', listener);
+    };
+  }
+
+  pause() {
+    if (!this.supportsPause) {
+      throw new Error('This stream does not support pausing');
+    }
+    this.transition('paused');
+  }
+
+  resume() {
+    this.transition('streaming');
+  }
+
+  // Returns false when the stream already ended (complete, error or cancelled)
+  cancel(reason?: unknown): boolean {
+    if (!this.canTransition('cancelled')) return false;
+    this.transition('cancelled');
+    this.abortController.abort(reason);
+    return true;
+  }
+
+  // Resolves once the stream is no longer paused
+  whenResumed(): Promise<void> {
+    if (this.current !== 'paused') return Promise.resolve();
+    return new Promise(resolve => {
+      const unsubscribe = this.onStateChange(state => {
+        if (state !== 'paused') {
+          unsubscribe();
+          resolve();
+        }
+      });
+    });
+  }
+}
@@ -0,0 +1,22 @@
+import { openStream } from './stream';
+import { StreamingTool } from './types';
+
+export * from './types';
+export { StreamController, isTerminalState } from './controller';
+export { openStream, StreamSession, CHUNK_TIMEOUT_CODE, TOTAL_TIMEOUT_CODE } from './stream';
+export * from './backpressure';
+
+/**
+ * Define a streaming tool. The returned executeStream runs the given
+ * producer under a StreamController, so every consumer gets state
+ * transitions, cancellation and timeouts enforced. Use openStream when
+ * you also need the controller, e.g. to pause.
+ */
+export function createStreamingTool<TInput, TOutput>(
+  config: StreamingTool<TInput, TOutput>
+): StreamingTool<TInput, TOutput> {
+  return {
+    ...config,
+    executeStream: (input, options) => openStream(config, input, options).events
+  };
+}
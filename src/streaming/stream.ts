@@ -0,0 +1,287 @@
+import { ToolError } from '../index';
+import { toToolError } from '../runtime';
+import { isTerminalState, StreamController } from './controller';
+import { applyBackpressure, BackpressureStats } from './backpressure';
+import { StreamEvent, StreamOptions, StreamRecoveryStrategy, StreamingTool } from './types';
+
+export const CHUNK_TIMEOUT_CODE = 'STREAM_CHUNK_TIMEOUT';
+export const TOTAL_TIMEOUT_CODE = 'STREAM_TOTAL_TIMEOUT';
+
+export type StreamSession<T> = {
+  events: AsyncIterable<StreamEvent<T>>;
+  controller: StreamController;
+  // Present when options.backpressure is set
+  backpressure?: BackpressureStats;
+  // Latest checkpoint seen; pass as resumeFrom to continue elsewhere
+  readonly checkpoint?: string;
+  // Reconnects made under options.recovery
+  readonly recoveries: number;
+};
+
+type Outcome<T> =
+  | { kind: 'value'; value: T }
+  | { kind: 'timeout'; error: ToolError }
+  | { kind: 'failed'; error: ToolError }
+  | { kind: 'cancelled' };
+
+function timeoutError(code: string, ms: number): ToolError {
+  return {
+    code,
+    message: code === CHUNK_TIMEOUT_CODE
+      ? `No stream event within ${ms}ms`
+      : `Stream did not finish within ${ms}ms`,
+    retryable: true,
+    userMessage: 'The stream timed out'
+  };
+}
+
+// Wait for `promise`, giving up on cancellation or when a deadline passes
+function settle<T>(
+  promise: Promise<T>,
+  signal: AbortSignal,
+  deadlines: Array<{ ms: number; code: string; limit: number }>
+): Promise<Outcome<T>> {
+  return new Promise((resolve, reject) => {
+    const timers: ReturnType<typeof setTimeout>[] = [];
+    const done = (outcome: Outcome<T>) => {
+      timers.forEach(clearTimeout);
+      signal.removeEventListener('abort', abort);
+      resolve(outcome);
+    };
+    const abort = () => done({ kind: 'cancelled' });
+
+    if (signal.aborted) return abort();
+    signal.addEventListener('abort', abort, { once: true });
+    deadlines.forEach(({ ms, code, limit }) => {
+      timers.push(setTimeout(() => done({ kind: 'timeout', error: timeoutError(code, limit) }), Math.max(0, ms)));
+    });
+
+    promise.then(
+      value => done({ kind: 'value', value }),
+      error => {
+        timers.forEach(clearTimeout);
+        signal.removeEventListener('abort', abort);
+        reject(error);
+      }
+    );
+  });
+}
+
+/**
+ * Run a streaming tool under a StreamController. The returned events
+ * always finish with exactly one of 'end', 'error' or 'cancel', and the
+ * controller's state follows the STREAMING.md transition table.
+ * chunkTimeout and totalTimeout end the stream with an error event.
+ * When options.backpressure is set, the producer runs ahead of the
+ * consumer into a bounded buffer, see applyBackpressure.
+ *
+ * With options.recovery, recoverable errors reconnect the producer
+ * instead of ending the stream: 'resume' passes the last checkpoint
+ * back as resumeFrom, 'restart' starts over. Chunks the consumer already
+ * received are then replayed or discarded per bufferStrategy.
+ */
+export function openStream<TInput, TOutput>(
+  tool: Pick<StreamingTool<TInput, TOutput>, 'streaming' | 'executeStream'>,
+  input: TInput,
+  options: StreamOptions = {}
+): StreamSession<TOutput> {
+  const controller = new StreamController(tool.streaming.supportsPause);
+  const recovery = options.recovery as StreamRecoveryStrategy<TOutput> | undefined;
+  let backpressure: BackpressureStats | undefined;
+  let checkpoint = options.resumeFrom;
+  let recoveries = 0;
+
+  const external = options.signal;
+  const onAbort = () => controller.cancel(external?.reason);
+  external?.addEventListener('abort', onAbort, { once: true });
+  // Every way a stream ends lands in a terminal state
+  const stopListening = controller.onStateChange(state => {
+    if (!isTerminalState(state)) return;
+    external?.removeEventListener('abort', onAbort);
+    stopListening();
+  });
+
+  const connect = (resumeFrom: string | undefined) => {
+    let source = tool.executeStream(input, { ...options, resumeFrom, signal: controller.signal });
+    if (options.backpressure) {
+      const adapted = applyBackpressure(source, options);
+      backpressure = adapted.stats;
+      source = adapted.events;
+    }
+    return source[Symbol.asyncIterator]();
+  };
+
+  const canRecover = (error: ToolError) =>
+    !!recovery &&
+    recovery.partialFailure !== 'abort' &&
+    recoveries < recovery.maxRetries &&
+    recovery.shouldRecover(error);
+
+  async function* run(): AsyncGenerator<StreamEvent<TOutput>> {
+    // Cancelled before the first pull: never start the producer
+    if (external?.aborted) controller.cancel(external.reason);
+    if (controller.signal.aborted) {
+      yield { type: 'cancel' };
+      return;
+    }
+    controller.transition('streaming');
+
+    const startedAt = Date.now();
+    let iterator = connect(checkpoint);
+    let finished = false;
+    // Producer position in data chunks, and the furthest the consumer got
+    let position = 0;
+    let checkpointPosition = 0;
+    let delivered = 0;
+
+    const fail = (error: ToolError): StreamEvent<TOutput> => {
+      if (controller.canTransition('error')) controller.transition('error');
+      return { type: 'error', error };
+    };
+
+    const close = () => {
+      // Don't wait: a producer stuck on an await would hold us up
+      if (!finished) iterator.return?.().catch(() => undefined);
+    };
+
+    const totalDeadline = () => options.totalTimeout === undefined ? [] : [{
+      ms: startedAt + options.totalTimeout - Date.now(),
+      code: TOTAL_TIMEOUT_CODE,
+      limit: options.totalTimeout
+    }];
+
+    try {
+      while (true) {
+        if (controller.state === 'paused') {
+          const resumed = await settle(controller.whenResumed(), controller.signal, totalDeadline());
+          if (resumed.kind === 'timeout') {
+            yield fail(resumed.error);
+            return;
+          }
+        }
+        if (controller.state === 'cancelled') {
+          yield { type: 'cancel' };
+          return;
+        }
+
+        const deadlines = totalDeadline();
+        if (options.chunkTimeout !== undefined) {
+          deadlines.push({ ms: options.chunkTimeout, code: CHUNK_TIMEOUT_CODE, limit: options.chunkTimeout });
+        }
+
+        let next: Outcome<IteratorResult<StreamEvent<TOutput>>>;
+        try {
+          next = await settle(iterator.next(), controller.signal, deadlines);
+        } catch (e) {
+          finished = true;
+          next = { kind: 'failed', error: toToolError(e) };
+        }
+
+        if (next.kind === 'cancelled') {
+          yield { type: 'cancel' };
+          return;
+        }
+
+        let error: ToolError | undefined;
+        if (next.kind === 'timeout' || next.kind === 'failed') {
+          error = next.error;
+        } else if (next.value.done) {
+          finished = true;
+          controller.transition('complete');
+          yield { type: 'end' };
+          return;
+        } else {
+          const event = next.value.value;
+          switch (event.type) {
+            case 'data': {
+              position++;
+              if (event.checkpoint !== undefined) {
+                checkpoint = event.checkpoint;
+                checkpointPosition = position;
+              }
+              const resent = position <= delivered;
+              delivered = Math.max(delivered, position);
+              if (!resent || shouldReplay(recovery, event.chunk)) {
+                yield event;
+              }
+              continue;
+            }
+            case 'progress':
+              yield event;
+              continue;
+            case 'end':
+              controller.transition('complete');
+              yield event;
+              return;
+            case 'cancel':
+              controller.cancel();
+              yield event;
+              return;
+            case 'error':
+              error = event.error;
+          }
+        }
+
+        const isTotalTimeout = error.code === TOTAL_TIMEOUT_CODE;
+        if (isTotalTimeout || !canRecover(error)) {
+          yield fail(error);
+          return;
+        }
+
+        recoveries++;
+        close();
+        const waited = await settle(sleep(recovery!.retryDelay(recoveries)), controller.signal, totalDeadline());
+        if (waited.kind === 'cancelled') {
+          yield { type: 'cancel' };
+          return;
+        }
+        if (waited.kind !== 'value') {
+          yield fail(waited.error);
+          return;
+        }
+
+        const resume = recovery!.partialFailure === 'resume' && checkpoint !== undefined;
+        if (!resume) {
+          checkpoint = undefined;
+          checkpointPosition = 0;
+        }
+        position = checkpointPosition;
+        finished = false;
+        iterator = connect(checkpoint);
+      }
+    } finally {
+      close();
+      if (controller.canTransition('cancelled')) controller.cancel();
+    }
+  }
+
+  const events = run();
+  return {
+    events,
+    controller,
+    get backpressure() {
+      return backpressure;
+    },
+    get checkpoint() {
+      return checkpoint;
+    },
+    get recoveries() {
+      return recoveries;
+    }
+  };
+}
+
+function shouldReplay<T>(recovery: StreamRecoveryStrategy<T> | undefined, chunk: T): boolean {
+  switch (recovery?.bufferStrategy) {
+    case 'discard':
+      return false;
+    case 'custom':
+      return recovery.replayChunk ? recovery.replayChunk(chunk) : true;
+    default:
+      return true;
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, Math.max(0, ms)));
+}
@@ -0,0 +1,59 @@
+import { ModernTool, ProgressInfo, ToolError, ToolMetadata } from '../index';
+
+// Events a streaming tool yields, in the order they happen
+export type StreamEvent<T> =
+  // checkpoint: opaque token to resume the stream right after this chunk
+  | { type: 'data'; chunk: T; checkpoint?: string }
+  | { type: 'progress'; progress: ProgressInfo }
+  | { type: 'error'; error: ToolError }
+  | { type: 'end' }
+  | { type: 'cancel' };
+
+export type StreamState = 'initial' | 'streaming' | 'paused' | 'cancelled' | 'error' | 'complete';
+
+export type StreamingConfig = {
+  // Can this tool produce partial results?
+  supportsPartialResults: boolean;
+  minChunkSize?: number;
+  maxChunkSize?: number;
+  // Can the stream be paused/resumed?
+  supportsPause: boolean;
+  // Estimated total chunks (if known)
+  estimatedChunks?: number;
+};
+
+export type StreamOptions = {
+  // Signal for cancellation
+  signal?: AbortSignal;
+  preferredChunkSize?: number;
+  backpressure?: 'drop' | 'buffer' | 'error';
+  maxBufferSize?: number;
+  // Max ms to wait for the next event from the producer
+  chunkTimeout?: number;
+  // Max ms for the whole stream
+  totalTimeout?: number;
+  // Checkpoint token from a previous data event to continue after
+  resumeFrom?: string;
+  // How to reconnect after the producer fails
+  recovery?: StreamRecoveryStrategy<any>;
+};
+
+export type StreamRecoveryStrategy<T = unknown> = {
+  // Should we attempt recovery for this error?
+  shouldRecover: (error: ToolError) => boolean;
+  maxRetries: number;
+  // 'resume' reconnects from the last checkpoint, 'restart' from scratch
+  partialFailure: 'resume' | 'restart' | 'abort';
+  // Delay in ms before reconnect number `attempt` (1-based)
+  retryDelay: (attempt: number) => number;
+  // What to do with chunks the producer re-sends that the consumer already has
+  bufferStrategy: 'replay' | 'discard' | 'custom';
+  // 'custom': return true to pass a re-sent chunk on again
+  replayChunk?: (chunk: T) => boolean;
+};
+
+export type StreamingTool<TInput = any, TOutput = unknown> = ModernTool & {
+  metadata: ToolMetadata;
+  streaming: StreamingConfig;
+  executeStream: (input: TInput, options?: StreamOptions) => AsyncIterable<StreamEvent<TOutput>>;
+};
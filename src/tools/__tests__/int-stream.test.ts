@@ -1,8 +1,11 @@
-import { getCurrentValue, incrementValue } from '../int-stream';
+import { createIntStreamSession, getCurrentValue, incrementValue, restoreIntStreamSession } from '../int-stream';
+import { Frame, SequenceInvalidError } from '../../frames';
 import { parallel } from '../../compiler/parallel';
 import { compileToOpenAI } from '../../compiler';
 
 describe('IntStream Tools', () => {
+  const session = createIntStreamSession('agent-1');
+
   it('compiles to OpenAI format', () => {
     const getCurrentValueOpenAI = compileToOpenAI(getCurrentValue);
     expect(getCurrentValueOpenAI).toEqual({
@@ -23,18 +26,18 @@ describe('IntStream Tools', () => {
 
   it('validates sequence numbers', async () => {
     // First call should work
-    const result1 = await getCurrentValue.execute({ basedOnSequence: 1 });
+    const result1 = await getCurrentValue.execute({ basedOnSequence: 1 }, session);
     expect(result1.sequence).toBe(1);
     expect(result1.value).toBe(0);
 
     // Increment changes sequence
-    const result2 = await incrementValue.execute({ basedOnSequence: 1, amount: 5 });
+    const result2 = await incrementValue.execute({ basedOnSequence: 1, amount: 5 }, session);
     expect(result2.sequence).toBe(2);
     expect(result2.value).toBe(5);
 
     // Old sequence should fail
     await expect(
-      getCurrentValue.execute({ basedOnSequence: 1 })
+      getCurrentValue.execute({ basedOnSequence: 1 }, session)
     ).rejects.toThrow('Invalid sequence number');
   });
 
@@ -44,7 +47,8 @@ describe('IntStream Tools', () => {
       [
         { basedOnSequence: 2 },
         { basedOnSequence: 2 }
-      ]
+      ],
+      session
     );
     expect(results).toHaveLength(2);
     expect(results[0].value).toBe(results[1].value);
@@ -57,8 +61,74 @@ describe('IntStream Tools', () => {
         [
           { basedOnSequence: 2, amount: 1 },
           { basedOnSequence: 2, amount: 1 }
-        ]
+        ],
+        session
       )
     ).rejects.toThrow('parallel() can only be used with query tools');
   });
+
+  it('rejects missing arguments instead of adding undefined', async () => {
+    await expect(
+      incrementValue.execute({ basedOnSequence: 2 } as any, session)
+    ).rejects.toMatchObject({
+      code: 'INVALID_INPUT',
+      details: { errors: [{ path: ['amount'], code: 'MISSING_REQUIRED' }] }
+    });
+
+    // State is untouched, and numeric strings are coerced
+    const result = await getCurrentValue.execute({ basedOnSequence: '2' as any }, session);
+    expect(result.value).toBe(5);
+  });
+
+  it('keeps sessions apart', async () => {
+    const other = createIntStreamSession('agent-2');
+    const result = await incrementValue.execute({ basedOnSequence: 1, amount: 10 }, other);
+
+    expect(result.value).toBe(10);
+    expect((await getCurrentValue.execute({ basedOnSequence: 2 }, session)).value).toBe(5);
+  });
+
+  it('rejects stale queries with a sequence_invalid error frame', async () => {
+    const error = await getCurrentValue.execute({ basedOnSequence: 1 }, session).catch(e => e);
+
+    expect(error).toBeInstanceOf(SequenceInvalidError);
+    expect(error.frame).toEqual({
+      sequence: 2,
+      url: '/int-stream',
+      changes: {
+        type: 'error',
+        content: 'Value is 5',
+        error: { code: 'sequence_invalid', message: 'Invalid sequence number 1: the current sequence is 2' }
+      }
+    });
+    expect(error.intervening.map((f: Frame) => f.sequence)).toEqual([2]);
+  });
+
+  it('resumes a serialized session', async () => {
+    const restored = restoreIntStreamSession(JSON.parse(JSON.stringify(session)));
+    const result = await incrementValue.execute({ basedOnSequence: 2, amount: 1 }, restored);
+
+    expect(result).toMatchObject({ sequence: 3, value: 6, changes: { content: 'Value is 6' } });
+    expect(session.sequence).toBe(2);
+
+    // What happened before the restore is unknown, so it can't be rebased over
+    await expect(
+      incrementValue.execute({ basedOnSequence: 1, amount: 1 }, restored)
+    ).rejects.toThrow(SequenceInvalidError);
+  });
+
+  it('rebases stale increments onto the current value', async () => {
+    const stream = createIntStreamSession('agent-3');
+    await incrementValue.execute({ basedOnSequence: 1, amount: 1 }, stream);
+
+    // Both based on sequence 2: the second lands on top of the first
+    await incrementValue.execute({ basedOnSequence: 2, amount: 10 }, stream);
+    const result = await incrementValue.execute({ basedOnSequence: 2, amount: 100 }, stream);
+
+    expect(result).toMatchObject({ sequence: 4, value: 111, changes: { content: 'Value is 111' } });
+  });
+
+  it('needs a session', async () => {
+    await expect(getCurrentValue.execute({ basedOnSequence: 1 })).rejects.toThrow('pass a FrameSession to execute');
+  });
 });
@@ -1,59 +1,73 @@
 /**
  * Example implementation of the Frame Protocol using a simple integer stream.
- * 
+ *
  * This demonstrates the key concepts of the Frame Protocol:
- * 1. State Management: Current value and sequence number
- * 2. Sequence Validation: Each operation validates against current sequence
- * 3. Query vs Mutation: 
+ * 1. State Management: Current value and sequence number, kept per agent
+ *    in a FrameSession (see createIntStreamSession)
+ * 2. Sequence Validation: Each operation validates against current sequence.
+ *    Increments commute, so a stale one is rebased onto the current value
+ *    instead of being rejected
+ * 3. Query vs Mutation:
  *    - Queries (getCurrentValue) don't change state or sequence
  *    - Mutations (incrementValue) update both state and sequence
  * 4. Frame-based Responses: All operations return frames with:
  *    - sequence: Current sequence number
- *    - type: 'full' | 'diff' | 'error'
- *    - content: Human-readable state description
+ *    - url: The stream's address
+ *    - changes: 'full_page' with a human-readable state description
  *    - value: Actual state data
  */
 
-import { ToolDefinition } from '../compiler/types';
+import { defineTool } from '../compiler';
+import { FrameRenderer, FrameSession, requireSession, SerializedFrameSession } from '../frames';
 import { Frame } from '../types';
 
-// Track current state
-let currentValue = 0;
-let currentSequence = 1;
+// The stream's only "page"
+const STREAM_URL = '/int-stream';
+
+export type IntStreamState = {
+  value: number;
+};
 
 // Extend Frame to include our state data
 interface IntFrame extends Frame {
   value: number;
 }
 
+const render: FrameRenderer<IntStreamState> = ({ value }) => ({ url: STREAM_URL, content: `Value is ${value}` });
+
+// State for one agent, starting at value 0, sequence 1
+export function createIntStreamSession(id: string): FrameSession<IntStreamState> {
+  return new FrameSession(id, { value: 0 }, { render });
+}
+
+// Pick up a session saved with JSON.stringify(session)
+export function restoreIntStreamSession(data: SerializedFrameSession<IntStreamState>): FrameSession<IntStreamState> {
+  return FrameSession.restore(data, { render });
+}
+
 // 1. Query Tool: Get current value
 // Note: Queries can run in parallel since they don't change state
-export const getCurrentValue: ToolDefinition = {
+export const getCurrentValue = defineTool({
   name: 'get_current_value',
   description: 'Get current value of the integer stream',
   type: 'query',
   input: {
     basedOnSequence: 'number'
   },
-  async execute({ basedOnSequence }: { basedOnSequence: number }): Promise<IntFrame> {
+  async execute({ basedOnSequence }, session): Promise<IntFrame> {
+    const stream = requireSession<IntStreamState>(session);
+
     // Frame Protocol: Validate sequence number
-    if (basedOnSequence !== currentSequence) {
-      throw new Error('Invalid sequence number');
-    }
+    stream.check(basedOnSequence);
 
     // Frame Protocol: Return current state as a frame
-    return {
-      sequence: currentSequence,
-      type: 'full',
-      content: `Value is ${currentValue}`,
-      value: currentValue
-    };
+    return { ...stream.snapshot(), value: stream.state.value };
   }
-};
+});
 
 // 2. Mutation Tool: Increment value
 // Note: Mutations must be sequential since they change state
-export const incrementValue: ToolDefinition = {
+export const incrementValue = defineTool({
   name: 'increment_value',
   description: 'Increment the integer stream by a specified amount',
   type: 'mutation',
@@ -61,22 +75,19 @@ export const incrementValue: ToolDefinition = {
     amount: 'number',
     basedOnSequence: 'number'
   },
-  async execute({ amount, basedOnSequence }: { amount: number, basedOnSequence: number }): Promise<IntFrame> {
-    // Frame Protocol: Validate sequence number
-    if (basedOnSequence !== currentSequence) {
-      throw new Error('Invalid sequence number');
-    }
+  async execute({ amount, basedOnSequence }, session): Promise<IntFrame> {
+    const stream = requireSession<IntStreamState>(session);
 
-    // Frame Protocol: Update state and increment sequence
-    currentValue += amount;
-    currentSequence += 1;
+    // Frame Protocol: Validate sequence number, update state and
+    // increment sequence. Adding commutes with other increments, so a
+    // stale call is applied to the current value.
+    const frame = stream.commit(
+      basedOnSequence,
+      state => ({ value: state.value + amount }),
+      'rebase-if-commutative'
+    );
 
     // Frame Protocol: Return new state as a frame
-    return {
-      sequence: currentSequence,
-      type: 'full',
-      content: `Value is now ${currentValue}`,
-      value: currentValue
-    };
+    return { ...frame, value: stream.state.value };
   }
-};
+});
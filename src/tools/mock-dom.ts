@@ -4,8 +4,11 @@ import { Frame } from '../types';
 // Mock initial page state
 export const mockPage: Frame = {
   sequence: 1,
-  content: '<div><button>Click me</button><a href="#">Link</a></div>',
-  type: 'full'
+  url: '/',
+  changes: {
+    type: 'full_page',
+    content: '<div><button>Click me</button><a href="#">Link</a></div>'
+  }
 };
 
 // Mock element query
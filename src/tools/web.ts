@@ -1,9 +1,18 @@
 import { mockPage, queryElements } from './mock-dom';
 import { Frame } from '../types';
 import { ToolDefinition } from '../compiler/types';
+import { FrameSession } from '../frames';
 
-// Track current frame
-let currentFrame: Frame = mockPage;
+// What a web session tracks: the page the agent is on
+export type WebPage = {
+  url: string;
+  content: string;
+};
+
+// Page state for one agent, starting from `page` (the mock page by default)
+export function createWebSession(id: string, page: Frame = mockPage): FrameSession<WebPage> {
+  return new FrameSession(id, { url: page.url, content: page.changes.content }, { render: state => state }, page.sequence);
+}
 
 interface Element {
   selector: string;
@@ -21,6 +30,12 @@ interface Element {
  * - Puppeteer: page.click()
  * - Selenium: element.click()
  * - Your own custom implementation
+ *
+ * execute receives the caller's FrameSession as its second argument:
+ * check(basedOnSequence) before reading the page, and commit() the page
+ * a mutation leads to so the next frame is recorded. When the target
+ * is missing, throw session.fail('element_not_found', ...) so the agent
+ * gets an error frame of the page as it is now.
  */
 
 // 1. Query Tool: Get clickable elements
@@ -28,7 +43,9 @@ export const getClickableElements: ToolDefinition = {
   name: 'getClickableElements',
   type: 'query',  // Just reads the DOM
   description: 'Get all clickable elements on the page',
-  input: {},
+  input: {
+    basedOnSequence: 'number'  // Frame the agent last saw
+  },
   execute: async () => {
     // Implementation provided by client
     return { elements: [] };
@@ -41,7 +58,8 @@ export const clickElement: ToolDefinition = {
   type: 'mutation',  // Changes page state
   description: 'Click an element on the page',
   input: {
-    selector: 'string'  // CSS selector or other identifier
+    selector: 'string',  // CSS selector or other identifier
+    basedOnSequence: 'number'
   },
   execute: async (input) => {
     // Implementation provided by client
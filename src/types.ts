@@ -1,6 +1,31 @@
+// Frame Protocol v1, see docs/FRAME_PROTOCOL.md
+export type FrameType = 'full_page' | 'diff' | 'error';
+
+// How content is encoded. JSON diffs carry an RFC 6902 patch as content.
+export type FrameFormat = 'html' | 'json';
+
+export type FrameErrorCode = 'sequence_invalid' | 'element_not_found' | 'network_error';
+
+export interface FrameChanges {
+  type: FrameType;
+  // Full page content, or just the changed content for diffs.
+  // Error frames carry the current page state.
+  content: string;
+  // Defaults to 'html'
+  format?: FrameFormat;
+  // For diffs: where the change occurred, as a CSS selector for HTML or
+  // a JSON pointer to the deepest common parent of the patched paths
+  selector?: string;
+  // For diffs: sequence of the full_page frame the diff applies to
+  baseFrame?: number;
+  error?: {
+    code: FrameErrorCode;
+    message: string;
+  };
+}
+
 export interface Frame {
   sequence: number;
-  content: string;
-  type: 'full' | 'diff' | 'error';
-  baseSequence?: number;
+  url: string;
+  changes: FrameChanges;
 }
@@ -1,5 +1,5 @@
 import { validateTool, ValidationErrorCode, ValidationWarningCode } from '../index';
-import { ModernTool, Duration, SideEffect } from '../../index';
+import { ModernTool, Duration, SideEffect, s } from '../../index';
 
 describe('Tool Validator', () => {
   const validTool: ModernTool = {
@@ -163,6 +163,63 @@ describe('Tool Validator', () => {
     });
   });
 
+  describe('Fallback Validation', () => {
+    it('should warn when a fallback has no target', () => {
+      const tool = {
+        ...validTool,
+        errors: {
+          ...validTool.errors,
+          fallbackBehavior: {
+            type: 'alternative-tool' as const,
+            description: 'Use another provider'
+          }
+        }
+      };
+
+      const result = validateTool(tool);
+      expect(result.warnings).toContainEqual(
+        expect.objectContaining({
+          code: ValidationWarningCode.POTENTIAL_ISSUE,
+          path: ['errors', 'fallbackBehavior', 'toolId']
+        })
+      );
+    });
+  });
+
+  describe('Output Contract Validation', () => {
+    it('should accept examples matching the output schema', () => {
+      const tool = { ...validTool, output: s.object({ result: s.boolean() }) };
+      expect(validateTool(tool).errors).toEqual([]);
+    });
+
+    it('should report each example output path that breaks the schema', () => {
+      const tool = {
+        ...validTool,
+        output: s.object({ result: s.boolean(), count: s.number() }),
+        documentation: {
+          ...validTool.documentation,
+          examples: [
+            ...validTool.documentation.examples,
+            { input: {}, output: { result: 'true', count: 1 }, description: 'Stale example' }
+          ]
+        }
+      };
+
+      const result = validateTool(tool);
+      expect(result.isValid).toBe(false);
+      expect(result.errors).toEqual([
+        expect.objectContaining({
+          code: ValidationErrorCode.MISSING_REQUIRED,
+          path: ['documentation', 'examples', '0', 'output', 'count']
+        }),
+        expect.objectContaining({
+          code: ValidationErrorCode.INVALID_TYPE,
+          path: ['documentation', 'examples', '1', 'output', 'result']
+        })
+      ]);
+    });
+  });
+
   describe('Execution Validation', () => {
     it('should validate duration ranges', () => {
       const tool = {
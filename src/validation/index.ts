@@ -1,4 +1,5 @@
-import { ModernTool, ErrorType, RetryStrategy, Documentation } from '../index';
+import { ModernTool, ErrorConfig, FallbackStrategy, Documentation, Example } from '../index';
+import { FieldSchema, parseValue } from '../schema';
 
 export type ValidationResult = {
   isValid: boolean;
@@ -28,7 +29,9 @@ export enum ValidationErrorCode {
 export enum ValidationWarningCode {
   MISSING_RECOMMENDED = 'MISSING_RECOMMENDED',
   POTENTIAL_ISSUE = 'POTENTIAL_ISSUE',
-  BEST_PRACTICE = 'BEST_PRACTICE'
+  BEST_PRACTICE = 'BEST_PRACTICE',
+  // A compile target can't express part of the schema
+  LOSSY_CONVERSION = 'LOSSY_CONVERSION'
 }
 
 export class ToolValidator {
@@ -47,6 +50,11 @@ export class ToolValidator {
       this.validateDocumentation(tool.documentation);
     }
 
+    // Documented examples must honour the output contract
+    if (tool.output && tool.documentation?.examples) {
+      this.validateExampleOutputs(tool.output, tool.documentation.examples);
+    }
+
     // Error handling
     if (tool.errors) {
       this.validateErrorHandling(tool.errors);
@@ -136,7 +144,22 @@ export class ToolValidator {
     }
   }
 
-  private validateErrorHandling(errorConfig: { possibleErrors: ErrorType[]; retryStrategies: RetryStrategy[] }) {
+  private validateExampleOutputs(output: FieldSchema, examples: Example[]) {
+    examples.forEach((example, index) => {
+      const checked = parseValue(output, example.output, { coerce: false });
+      if (checked.success) return;
+
+      checked.errors.forEach(error => {
+        this.addError(
+          ['documentation', 'examples', index.toString(), 'output', ...error.path],
+          `Example output does not match output schema: ${error.message}`,
+          error.code
+        );
+      });
+    });
+  }
+
+  private validateErrorHandling(errorConfig: ErrorConfig) {
     if (!errorConfig.possibleErrors || errorConfig.possibleErrors.length === 0) {
       this.addError(
         ['errors', 'possibleErrors'],
@@ -187,6 +210,28 @@ export class ToolValidator {
         ValidationErrorCode.INCONSISTENT_STATE
       );
     }
+
+    if (errorConfig.fallbackBehavior) {
+      this.validateFallback(errorConfig.fallbackBehavior);
+    }
+  }
+
+  private validateFallback(fallback: FallbackStrategy) {
+    const targets: Record<FallbackStrategy['type'], keyof FallbackStrategy> = {
+      'alternative-tool': 'toolId',
+      'degraded-mode': 'degradeInput',
+      'cache': 'cacheKey',
+      'custom': 'handler'
+    };
+    const target = targets[fallback.type];
+
+    if (!fallback[target]) {
+      this.addWarning(
+        ['errors', 'fallbackBehavior', target],
+        `${fallback.type} fallback has no ${target}, so it will never run`,
+        ValidationWarningCode.POTENTIAL_ISSUE
+      );
+    }
   }
 
   private validateExecution(execution: ModernTool['execution']) {